@@ -5,6 +5,8 @@
  * normalize them to a consistent shape before hot path.
  */
 
+import { reportResult } from '../_shared/harness.js';
+
 const WARMUP = parseInt(process.env.WARMUP || '1000', 10);
 const REPEAT = parseInt(process.env.REPEAT || '100000', 10);
 
@@ -61,12 +63,15 @@ function benchmark() {
   }
 
   const end = process.hrtime.bigint();
-  const durationMs = Number(end - start) / 1e6;
-  const avgNs = (Number(end - start) / REPEAT);
 
-  console.log(`Time: ${durationMs.toFixed(3)}ms`);
-  console.log(`Avg per iteration: ${avgNs.toFixed(2)}ns`);
-  console.log(`Sanity check: ${sum.toFixed(2)}`);
+  reportResult({
+    variant: 'fixed',
+    warmup: WARMUP,
+    iterations: REPEAT,
+    start,
+    end,
+    sanity: sum,
+  });
 }
 
 benchmark();
@@ -1,7 +1,9 @@
+import { reportResult } from '../_shared/harness.js';
+
 const WARMUP = parseInt(process.env.WARMUP || '1000', 10);
 const REPEAT = parseInt(process.env.REPEAT || '100000', 10);
 
-function process(obj) {
+function processObject(obj) {
   return obj.id * 2;  // Will become MEGAMORPHIC
 }
 
@@ -25,22 +27,26 @@ function benchmark() {
   ];
 
   for (let i = 0; i < WARMUP; i++) {
-    process(objects[i % objects.length]);
+    processObject(objects[i % objects.length]);
   }
 
   let sum = 0;
   const start = process.hrtime.bigint();
 
   for (let i = 0; i < REPEAT; i++) {
-    sum += process(objects[i % objects.length]);
+    sum += processObject(objects[i % objects.length]);
   }
 
   const end = process.hrtime.bigint();
-  const durationMs = Number(end - start) / 1e6;
 
-  console.log(`Time: ${durationMs.toFixed(3)}ms`);
-  console.log(`Avg per iteration: ${(Number(end - start) / REPEAT).toFixed(2)}ns`);
-  console.log(`Sanity check: ${sum}`);
+  reportResult({
+    variant: 'deopt',
+    warmup: WARMUP,
+    iterations: REPEAT,
+    start,
+    end,
+    sanity: sum,
+  });
 }
 
 benchmark();
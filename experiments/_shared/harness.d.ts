@@ -0,0 +1,16 @@
+// Types for the server, which imports the marker parser from here
+
+export const RESULT_MARKER: string;
+
+export function reportResult(measurement: {
+  variant: string;
+  warmup: number;
+  iterations: number;
+  start: bigint;
+  end: bigint;
+  sanity: unknown;
+}): unknown;
+
+export function parseMarker<T = unknown>(stdout: string, marker: string): T | null;
+
+export function parseResult<T = unknown>(stdout: string): T | null;
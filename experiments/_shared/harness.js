@@ -0,0 +1,88 @@
+/**
+ * Shared benchmark harness
+ *
+ * Every experiment variant reports its measurement through here so the
+ * runner and the API get real numbers instead of scraping console output.
+ *
+ * The human-readable lines (Time / Avg per iteration / Sanity check) are
+ * still printed, followed by a single machine-readable line:
+ *
+ *   @@v8lab:result {"variant":"baseline","timeMs":1.234,...}
+ */
+
+export const RESULT_MARKER = '@@v8lab:result';
+
+// BigInt and other non-JSON values are stringified so the marker line
+// always parses.
+function normalizeSanity(value) {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Print the measurement for one benchmark run.
+ *
+ * @param {object} measurement
+ * @param {string} measurement.variant      baseline | deopt | fixed
+ * @param {number} measurement.warmup       Warmup iterations executed
+ * @param {number} measurement.iterations   Measured iterations executed
+ * @param {bigint} measurement.start        process.hrtime.bigint() before the loop
+ * @param {bigint} measurement.end          process.hrtime.bigint() after the loop
+ * @param {*}      measurement.sanity       Accumulated value that keeps the loop alive
+ */
+export function reportResult({ variant, warmup, iterations, start, end, sanity }) {
+  const elapsedNs = Number(end - start);
+  const result = {
+    variant,
+    warmup,
+    iterations,
+    timeMs: elapsedNs / 1e6,
+    nsPerOp: iterations > 0 ? elapsedNs / iterations : 0,
+    sanity: normalizeSanity(sanity),
+    // The runtime that actually executed the variant (which is not
+    // necessarily the one running the server or the runner) and its flags
+    nodeVersion: process.version,
+    v8Version: process.versions.v8,
+    execArgv: process.execArgv,
+  };
+
+  console.log(`Time: ${result.timeMs.toFixed(3)}ms`);
+  console.log(`Avg per iteration: ${result.nsPerOp.toFixed(2)}ns`);
+  console.log(`Sanity check: ${typeof sanity === 'number' && !Number.isInteger(sanity) ? sanity.toFixed(2) : sanity}`);
+  console.log(`${RESULT_MARKER} ${JSON.stringify(result)}`);
+
+  return result;
+}
+
+/**
+ * Find the JSON payload of the last `marker` line in captured stdout, or
+ * null if there is none. The runner's own markers use the same format.
+ */
+export function parseMarker(stdout, marker) {
+  const lines = stdout.split('\n');
+
+  // The last marker wins, in case a variant reports more than once
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line.startsWith(marker)) continue;
+
+    try {
+      return JSON.parse(line.slice(marker.length).trim());
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the structured result in captured stdout, or null if the variant
+ * did not report one (e.g. it crashed before the measurement finished).
+ */
+export function parseResult(stdout) {
+  return parseMarker(stdout, RESULT_MARKER);
+}
@@ -0,0 +1,180 @@
+import Link from 'next/link'
+import AutoRefresh from '@/components/AutoRefresh'
+
+type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+interface Comparison {
+  id: string
+  experiment: string
+  status: RunStatus
+  options: {
+    trace: boolean
+    warmup: number
+    repeat: number
+    samples: number
+  }
+  createdAt: string
+  variants: {
+    variant: string
+    runId: string
+    status: RunStatus
+    nsPerOp?: number
+    ci?: {
+      level: number
+      lower: number
+      upper: number
+    }
+    deoptCount: number | null
+  }[]
+  ratios: {
+    label: string
+    ratio: number | null
+    verdict: 'significant' | 'not-significant' | 'insufficient-data'
+  }[]
+}
+
+async function getComparison(id: string): Promise<Comparison | null> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/comparisons/${id}`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return null
+    return res.json()
+  } catch (error) {
+    return null
+  }
+}
+
+const statusColors = {
+  queued: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+}
+
+const verdictLabels = {
+  'significant': 'Significant',
+  'not-significant': 'Not significant',
+  'insufficient-data': 'Needs more samples',
+}
+
+export default async function ComparisonPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const comparison = await getComparison(id)
+
+  if (!comparison) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center py-12">
+          <h1 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">
+            Comparison not found
+          </h1>
+          <Link
+            href="/experiments"
+            className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            ← Back to experiments
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const pending = comparison.status === 'queued' || comparison.status === 'running'
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <AutoRefresh active={pending} />
+
+      <div className="mb-6">
+        <Link
+          href={`/experiments/${comparison.experiment}`}
+          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 mb-4 inline-block"
+        >
+          ← Back to experiment
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          {comparison.experiment} - comparison
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          {comparison.options.samples} {comparison.options.samples === 1 ? 'sample' : 'samples'} ·
+          warmup {comparison.options.warmup.toLocaleString()} ·
+          repeat {comparison.options.repeat.toLocaleString()}
+          {comparison.options.trace ? ' · tracing on' : ''}
+        </p>
+      </div>
+
+      {/* Side-by-side variants */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        {comparison.variants.map((v) => (
+          <div
+            key={v.variant}
+            className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{v.variant}</h2>
+              <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${statusColors[v.status]}`}>
+                {v.status}
+              </span>
+            </div>
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">ns/op:</dt>
+                <dd className="text-gray-900 dark:text-white font-medium">
+                  {v.nsPerOp !== undefined ? v.nsPerOp.toFixed(2) : '-'}
+                </dd>
+              </div>
+              {v.ci && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600 dark:text-gray-400">{Math.round(v.ci.level * 100)}% CI:</dt>
+                  <dd className="text-gray-900 dark:text-white">
+                    {v.ci.lower.toFixed(2)} – {v.ci.upper.toFixed(2)}
+                  </dd>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Deopts:</dt>
+                <dd className="text-gray-900 dark:text-white">{v.deoptCount ?? 'n/a'}</dd>
+              </div>
+            </dl>
+            <Link
+              href={`/runs/${v.runId}`}
+              className="mt-4 inline-block text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              View run →
+            </Link>
+          </div>
+        ))}
+      </div>
+
+      {/* Ratios */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+        <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+          Speedup ratios
+        </h2>
+        {comparison.ratios.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Not enough variants to compare.
+          </p>
+        ) : (
+          <dl className="space-y-3 text-sm">
+            {comparison.ratios.map((r) => (
+              <div key={r.label} className="flex justify-between items-center">
+                <dt className="text-gray-600 dark:text-gray-400 font-mono">{r.label}</dt>
+                <dd className="flex items-center space-x-3">
+                  <span className="text-gray-900 dark:text-white font-medium">
+                    {r.ratio !== null ? `${r.ratio.toFixed(2)}x` : pending ? 'pending' : '-'}
+                  </span>
+                  <span className="text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                    {verdictLabels[r.verdict]}
+                  </span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,33 @@
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import rehypeHighlight from 'rehype-highlight'
 import Link from 'next/link'
-import 'highlight.js/styles/github-dark.css'
+import DocToc, { DocHeading } from '@/components/DocToc'
+import Markdown from '@/components/Markdown'
+import { GLOSSARY_SLUG, getGlossary } from '@/lib/glossary'
+
+interface DocMetadata {
+  slug: string
+  title: string
+  description?: string
+}
+
+type Difficulty = 'beginner' | 'intermediate' | 'advanced'
+
+interface DocExperiment {
+  slug: string
+  name: string
+  description: string
+  difficulty?: Difficulty
+  // How the experiment refers to the doc
+  via: ('manifest' | 'readme')[]
+}
 
 interface Doc {
-  metadata: {
-    slug: string
-    title: string
-    description?: string
-  }
+  metadata: DocMetadata
   content: string
+  toc: DocHeading[]
+  readingMinutes: number
+  prev: DocMetadata | null
+  next: DocMetadata | null
+  experiments: DocExperiment[]
 }
 
 async function getDoc(slug: string): Promise<Doc | null> {
@@ -25,9 +42,38 @@ async function getDoc(slug: string): Promise<Doc | null> {
   }
 }
 
+const difficultyColors = {
+  beginner: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  intermediate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  advanced: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+}
+
+const viaLabels = {
+  manifest: 'lists this doc',
+  readme: 'links here',
+}
+
+function DocNavLink({ doc, direction }: { doc: DocMetadata; direction: 'prev' | 'next' }) {
+  return (
+    <Link
+      href={`/docs/${doc.slug}`}
+      className={`block p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-blue-500 dark:hover:border-blue-400 transition-colors ${
+        direction === 'next' ? 'text-right' : ''
+      }`}
+    >
+      <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+        {direction === 'prev' ? '← Previous' : 'Next →'}
+      </span>
+      <span className="font-medium text-gray-900 dark:text-white">{doc.title}</span>
+    </Link>
+  )
+}
+
 export default async function DocPage({ params }: { params: Promise<{ slug: string }> }) {
   const { slug } = await params
   const doc = await getDoc(slug)
+  // The glossary itself is all terms
+  const glossary = slug === GLOSSARY_SLUG ? undefined : await getGlossary()
 
   if (!doc) {
     return (
@@ -48,7 +94,7 @@ export default async function DocPage({ params }: { params: Promise<{ slug: stri
   }
 
   return (
-    <div className="max-w-4xl mx-auto">
+    <div className="max-w-6xl mx-auto">
       <div className="mb-6">
         <Link
           href="/docs"
@@ -59,17 +105,66 @@ export default async function DocPage({ params }: { params: Promise<{ slug: stri
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
           {doc.metadata.title}
         </h1>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          ~{doc.readingMinutes} min read
+        </p>
       </div>
 
-      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-8">
-        <div className="markdown prose prose-slate dark:prose-invert max-w-none">
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            rehypePlugins={[rehypeHighlight]}
-          >
-            {doc.content}
-          </ReactMarkdown>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <div className="lg:col-span-3 min-w-0">
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-8">
+            <div className="markdown prose prose-slate dark:prose-invert max-w-none">
+              <Markdown glossary={glossary}>{doc.content}</Markdown>
+            </div>
+          </div>
+
+          {doc.experiments.length > 0 && (
+            <section className="mt-8">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+                Experiments on this topic
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {doc.experiments.map((exp) => (
+                  <Link
+                    key={exp.slug}
+                    href={`/experiments/${exp.slug}`}
+                    className="block p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-blue-500 dark:hover:border-blue-400 transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <h3 className="font-semibold text-gray-900 dark:text-white">{exp.name}</h3>
+                      {exp.difficulty && (
+                        <span className={`text-xs px-2 py-1 rounded ${difficultyColors[exp.difficulty]}`}>
+                          {exp.difficulty}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-2 line-clamp-2">
+                      {exp.description}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {exp.via.map((via) => viaLabels[via]).join(' · ')}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {(doc.prev || doc.next) && (
+            <nav aria-label="Docs" className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>{doc.prev && <DocNavLink doc={doc.prev} direction="prev" />}</div>
+              <div>{doc.next && <DocNavLink doc={doc.next} direction="next" />}</div>
+            </nav>
+          )}
         </div>
+
+        {doc.toc.length > 0 && (
+          <aside className="hidden lg:block">
+            <div className="sticky top-4 max-h-[calc(100vh-2rem)] overflow-y-auto">
+              <DocToc toc={doc.toc} />
+            </div>
+          </aside>
+        )}
       </div>
     </div>
   )
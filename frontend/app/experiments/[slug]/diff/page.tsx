@@ -0,0 +1,215 @@
+import Link from 'next/link'
+
+interface DiffSide {
+  line: number
+  text: string
+}
+
+interface DiffRow {
+  type: 'equal' | 'removed' | 'added' | 'changed'
+  left?: DiffSide
+  right?: DiffSide
+}
+
+interface VariantHistory {
+  variant: string
+  nsPerOp?: number
+  nsPerOpRunId?: string
+  deoptCount?: number
+  deoptRunId?: string
+}
+
+interface VariantDiff {
+  experiment: string
+  from: VariantHistory
+  to: VariantHistory
+  rows: DiffRow[]
+  stats: {
+    added: number
+    removed: number
+    changed: number
+  }
+}
+
+async function getVariants(slug: string): Promise<string[] | null> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/experiments/${slug}`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return null
+    const experiment = await res.json()
+    return experiment.metadata.variants
+  } catch (error) {
+    return null
+  }
+}
+
+async function getDiff(slug: string, from: string, to: string): Promise<VariantDiff | null> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/experiments/${slug}/diff/${from}/${to}`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return null
+    return res.json()
+  } catch (error) {
+    return null
+  }
+}
+
+const sideColors: Record<'left' | 'right', Record<string, string>> = {
+  left: {
+    removed: 'bg-red-900/40',
+    changed: 'bg-red-900/40',
+  },
+  right: {
+    added: 'bg-green-900/40',
+    changed: 'bg-green-900/40',
+  },
+}
+
+function HistoryCard({ history }: { history: VariantHistory }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <div className="font-mono font-semibold text-gray-900 dark:text-white mb-2">{history.variant}.js</div>
+      <dl className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-gray-600 dark:text-gray-400">Last ns/op:</dt>
+          <dd className="text-gray-900 dark:text-white">
+            {history.nsPerOp !== undefined ? (
+              <Link href={`/runs/${history.nsPerOpRunId}`} className="hover:underline">
+                {history.nsPerOp.toFixed(2)}
+              </Link>
+            ) : (
+              'no untraced runs yet'
+            )}
+          </dd>
+        </div>
+        <div className="flex justify-between">
+          <dt className="text-gray-600 dark:text-gray-400">Last deopt count:</dt>
+          <dd className="text-gray-900 dark:text-white">
+            {history.deoptCount !== undefined ? (
+              <Link href={`/runs/${history.deoptRunId}`} className="hover:underline">
+                {history.deoptCount}
+              </Link>
+            ) : (
+              'no traced runs yet'
+            )}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  )
+}
+
+function Cell({ side, type, which }: { side?: DiffSide; type: DiffRow['type']; which: 'left' | 'right' }) {
+  const color = sideColors[which][type] ?? ''
+  return (
+    <>
+      <td className={`w-12 px-2 text-right text-gray-500 select-none align-top ${color}`}>{side?.line ?? ''}</td>
+      <td className={`w-1/2 px-3 whitespace-pre text-gray-100 align-top ${side ? color : 'bg-gray-800'}`}>{side?.text ?? ''}</td>
+    </>
+  )
+}
+
+export default async function VariantDiffPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ from?: string; to?: string }>
+}) {
+  const { slug } = await params
+  const query = await searchParams
+  const variants = (await getVariants(slug)) ?? []
+
+  // The lesson of most experiments is deopt.js against fixed.js
+  const from = query.from && variants.includes(query.from) ? query.from : variants.includes('deopt') ? 'deopt' : variants[0]
+  const to = query.to && variants.includes(query.to) ? query.to : variants.includes('fixed') ? 'fixed' : variants[variants.length - 1]
+  const diff = from && to ? await getDiff(slug, from, to) : null
+
+  if (!diff) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center py-12">
+          <h1 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">
+            Variants not found
+          </h1>
+          <Link
+            href={`/experiments/${slug}`}
+            className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            ← Back to experiment
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const speedup =
+    diff.from.nsPerOp !== undefined && diff.to.nsPerOp !== undefined && diff.to.nsPerOp > 0
+      ? diff.from.nsPerOp / diff.to.nsPerOp
+      : null
+
+  const picker = (side: 'from' | 'to', current: string) => (
+    <div className="flex space-x-1">
+      {variants.map((variant) => (
+        <Link
+          key={variant}
+          href={`/experiments/${slug}/diff?from=${side === 'from' ? variant : from}&to=${side === 'to' ? variant : to}`}
+          className={`px-2 py-1 text-xs rounded transition-colors ${
+            variant === current
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200'
+          }`}
+        >
+          {variant}
+        </Link>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="mb-6">
+        <Link
+          href={`/experiments/${slug}`}
+          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 mb-4 inline-block"
+        >
+          ← Back to experiment
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          {slug}: {diff.from.variant}.js → {diff.to.variant}.js
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          {diff.stats.changed} changed · {diff.stats.removed} removed · {diff.stats.added} added
+          {speedup !== null &&
+            ` · ${diff.to.variant} is ${speedup >= 1 ? `${speedup.toFixed(2)}x faster` : `${(1 / speedup).toFixed(2)}x slower`} in the last runs`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+          {picker('from', diff.from.variant)}
+          <HistoryCard history={diff.from} />
+        </div>
+        <div className="space-y-2">
+          {picker('to', diff.to.variant)}
+          <HistoryCard history={diff.to} />
+        </div>
+      </div>
+
+      <div className="bg-gray-900 rounded-lg overflow-x-auto">
+        <table className="w-full text-sm font-mono border-collapse">
+          <tbody>
+            {diff.rows.map((row, i) => (
+              <tr key={i}>
+                <Cell side={row.left} type={row.type} which="left" />
+                <Cell side={row.right} type={row.type} which="right" />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
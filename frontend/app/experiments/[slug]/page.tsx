@@ -1,10 +1,18 @@
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import rehypeHighlight from 'rehype-highlight'
 import Link from 'next/link'
+import { ReactNode } from 'react'
 import RunForm from '@/components/RunForm'
+import CompareButton from '@/components/CompareButton'
+import MatrixButton from '@/components/MatrixButton'
+import SourcePanel, { VariantSource } from '@/components/SourcePanel'
+import Markdown from '@/components/Markdown'
+import { getGlossary } from '@/lib/glossary'
 import 'highlight.js/styles/github-dark.css'
 
+type Expectation =
+  | { variant: string; slowerThan: string; factor: number }
+  | { variant: string; maxDeopts: number; function?: string }
+  | { variant: string; minDeopts: number; function?: string }
+
 interface Experiment {
   metadata: {
     id: string
@@ -14,10 +22,37 @@ interface Experiment {
     variants: string[]
     tags: string[]
     difficulty?: string
+    concepts: string[]
+    prerequisites: string[]
+    relatedDocs: string[]
+    outcomes: string[]
+    expectations: Expectation[]
   }
   readme: string
 }
 
+function describeExpectation(expectation: Expectation): string {
+  if ('slowerThan' in expectation) {
+    return `${expectation.variant} ≥ ${expectation.factor}x slower than ${expectation.slowerThan}`
+  }
+  const scope = expectation.function ? ` in ${expectation.function}` : ''
+  if ('maxDeopts' in expectation) {
+    return expectation.maxDeopts === 0
+      ? `${expectation.variant} has zero deopts${scope}`
+      : `${expectation.variant} has at most ${expectation.maxDeopts} deopts${scope}`
+  }
+  return `${expectation.variant} has at least ${expectation.minDeopts} deopts${scope}`
+}
+
+function MetadataList({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
 async function getExperiment(slug: string): Promise<Experiment | null> {
   try {
     const res = await fetch(`http://localhost:4000/api/experiments/${slug}`, {
@@ -30,8 +65,28 @@ async function getExperiment(slug: string): Promise<Experiment | null> {
   }
 }
 
-export default async function ExperimentPage({ params }: { params: Promise<{ slug: string }> }) {
+async function getSource(slug: string, variant: string, runId?: string): Promise<VariantSource | null> {
+  try {
+    const query = runId ? `?run=${encodeURIComponent(runId)}` : ''
+    const res = await fetch(`http://localhost:4000/api/experiments/${slug}/source/${variant}${query}`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return null
+    return res.json()
+  } catch (error) {
+    return null
+  }
+}
+
+export default async function ExperimentPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ variant?: string; run?: string }>
+}) {
   const { slug } = await params
+  const { variant, run } = await searchParams
   const experiment = await getExperiment(slug)
 
   if (!experiment) {
@@ -52,6 +107,15 @@ export default async function ExperimentPage({ params }: { params: Promise<{ slu
     )
   }
 
+  const metadata = experiment.metadata
+  const glossary = await getGlossary()
+  const variants = metadata.variants
+  const sourceVariant = variant && variants.includes(variant) ? variant : variants.includes('deopt') ? 'deopt' : variants[0]
+  // Without the run's annotations (e.g. a run of another variant), still show the code
+  const source = sourceVariant
+    ? (run && (await getSource(slug, sourceVariant, run))) || (await getSource(slug, sourceVariant))
+    : null
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="mb-6">
@@ -64,21 +128,114 @@ export default async function ExperimentPage({ params }: { params: Promise<{ slu
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
           {experiment.metadata.name}
         </h1>
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          {experiment.metadata.difficulty && (
+            <Link
+              href={`/experiments?difficulty=${experiment.metadata.difficulty}`}
+              className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
+            >
+              {experiment.metadata.difficulty}
+            </Link>
+          )}
+          {experiment.metadata.tags.map((tag) => (
+            <Link
+              key={tag}
+              href={`/experiments?tag=${encodeURIComponent(tag)}`}
+              className="text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              {tag}
+            </Link>
+          ))}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main content */}
         <div className="lg:col-span-2">
+          {(metadata.concepts.length > 0 ||
+            metadata.prerequisites.length > 0 ||
+            metadata.relatedDocs.length > 0 ||
+            metadata.outcomes.length > 0) && (
+            <div className="mb-8 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+              {metadata.concepts.length > 0 && (
+                <MetadataList title="V8 concepts">
+                  <ul className="flex flex-wrap gap-2">
+                    {metadata.concepts.map((concept) => (
+                      <li key={concept} className="text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded">
+                        {concept}
+                      </li>
+                    ))}
+                  </ul>
+                </MetadataList>
+              )}
+              {metadata.prerequisites.length > 0 && (
+                <MetadataList title="Do these first">
+                  <ul className="space-y-1 text-sm">
+                    {metadata.prerequisites.map((prerequisite) => (
+                      <li key={prerequisite}>
+                        <Link
+                          href={`/experiments/${prerequisite}`}
+                          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          {prerequisite}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </MetadataList>
+              )}
+              {metadata.relatedDocs.length > 0 && (
+                <MetadataList title="Related docs">
+                  <ul className="space-y-1 text-sm">
+                    {metadata.relatedDocs.map((doc) => (
+                      <li key={doc}>
+                        <Link
+                          href={`/docs/${doc}`}
+                          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          {doc}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </MetadataList>
+              )}
+              {metadata.outcomes.length > 0 && (
+                <MetadataList title="Expected outcomes">
+                  <ul className="list-disc list-inside space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                    {metadata.outcomes.map((outcome) => (
+                      <li key={outcome}>{outcome}</li>
+                    ))}
+                  </ul>
+                </MetadataList>
+              )}
+            </div>
+          )}
+
           <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-8">
             <div className="markdown prose prose-slate dark:prose-invert max-w-none">
-              <ReactMarkdown
-                remarkPlugins={[remarkGfm]}
-                rehypePlugins={[rehypeHighlight]}
-              >
-                {experiment.readme}
-              </ReactMarkdown>
+              <Markdown glossary={glossary}>{experiment.readme}</Markdown>
             </div>
           </div>
+
+          {source && (
+            <div id="source" className="mt-8 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  Source
+                </h2>
+                {variants.length > 1 && (
+                  <Link
+                    href={`/experiments/${slug}/diff`}
+                    className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    Compare variants side by side →
+                  </Link>
+                )}
+              </div>
+              <SourcePanel source={source} variants={variants} />
+            </div>
+          )}
         </div>
 
         {/* Sidebar with run form */}
@@ -91,6 +248,44 @@ export default async function ExperimentPage({ params }: { params: Promise<{ slu
               experimentSlug={experiment.metadata.slug}
               variants={experiment.metadata.variants}
             />
+
+            <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Compare Variants
+              </h2>
+              <CompareButton
+                experimentSlug={experiment.metadata.slug}
+                variants={experiment.metadata.variants}
+              />
+            </div>
+
+            <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Node Versions
+              </h2>
+              <MatrixButton
+                experimentSlug={experiment.metadata.slug}
+                variants={experiment.metadata.variants}
+              />
+            </div>
+
+            {experiment.metadata.expectations.length > 0 && (
+              <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                  Expectations
+                </h2>
+                <ul className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+                  {experiment.metadata.expectations.map((expectation, i) => (
+                    <li key={i} className="font-mono">
+                      {describeExpectation(expectation)}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                  Checked by <code>npm run verify</code> and <code>POST /api/verify</code>
+                </p>
+              </div>
+            )}
           </div>
         </div>
       </div>
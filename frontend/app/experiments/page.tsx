@@ -1,4 +1,5 @@
 import Link from 'next/link'
+import { ReactNode } from 'react'
 
 interface Experiment {
   id: string
@@ -7,25 +8,79 @@ interface Experiment {
   description: string
   variants: string[]
   tags: string[]
-  difficulty?: 'beginner' | 'intermediate' | 'advanced'
+  difficulty?: Difficulty
+  concepts: string[]
 }
 
-async function getExperiments(): Promise<Experiment[]> {
-  const res = await fetch('http://localhost:4000/api/experiments', {
+type Difficulty = 'beginner' | 'intermediate' | 'advanced'
+
+interface Filters {
+  tag?: string
+  difficulty?: Difficulty
+}
+
+async function getExperiments(filters: Filters = {}): Promise<Experiment[]> {
+  const params = new URLSearchParams()
+  if (filters.tag) params.set('tag', filters.tag)
+  if (filters.difficulty) params.set('difficulty', filters.difficulty)
+  const query = params.toString()
+
+  const res = await fetch(`http://localhost:4000/api/experiments${query ? `?${query}` : ''}`, {
     cache: 'no-store'
   })
   if (!res.ok) return []
   return res.json()
 }
 
+function filterHref(filters: Filters): string {
+  const params = new URLSearchParams()
+  if (filters.tag) params.set('tag', filters.tag)
+  if (filters.difficulty) params.set('difficulty', filters.difficulty)
+  const query = params.toString()
+  return query ? `/experiments?${query}` : '/experiments'
+}
+
+const difficulties: Difficulty[] = ['beginner', 'intermediate', 'advanced']
+
 const difficultyColors = {
   beginner: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
   intermediate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
   advanced: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
 }
 
-export default async function ExperimentsPage() {
-  const experiments = await getExperiments()
+function FilterChip({ href, active, children }: { href: string; active: boolean; children: ReactNode }) {
+  return (
+    <Link
+      href={href}
+      className={`text-xs px-2 py-1 rounded transition-colors ${
+        active
+          ? 'bg-blue-600 text-white'
+          : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300'
+      }`}
+    >
+      {children}
+    </Link>
+  )
+}
+
+export default async function ExperimentsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ tag?: string; difficulty?: string }>
+}) {
+  const query = await searchParams
+  const filters: Filters = {
+    tag: query.tag || undefined,
+    difficulty: difficulties.find((d) => d === query.difficulty),
+  }
+  const filtered = Boolean(filters.tag || filters.difficulty)
+
+  // The unfiltered list provides the tags to choose from
+  const all = await getExperiments()
+  const experiments = filtered ? await getExperiments(filters) : all
+  const tags = [...new Set(all.flatMap((exp) => exp.tags))].sort((a, b) =>
+    a.localeCompare(b, undefined, { sensitivity: 'base' })
+  )
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -34,10 +89,51 @@ export default async function ExperimentsPage() {
           Experiments
         </h1>
         <p className="text-gray-600 dark:text-gray-400">
-          {experiments.length} runnable experiments demonstrating V8 optimization patterns
+          {filtered
+            ? `${experiments.length} of ${all.length} experiments match`
+            : `${experiments.length} runnable experiments demonstrating V8 optimization patterns`}
         </p>
       </div>
 
+      <div className="mb-8 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400 w-20">Difficulty</span>
+          {difficulties.map((difficulty) => (
+            <FilterChip
+              key={difficulty}
+              href={filterHref({ ...filters, difficulty: filters.difficulty === difficulty ? undefined : difficulty })}
+              active={filters.difficulty === difficulty}
+            >
+              {difficulty}
+            </FilterChip>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400 w-20">Tag</span>
+          {tags.map((tag) => (
+            <FilterChip
+              key={tag}
+              href={filterHref({ ...filters, tag: filters.tag?.toLowerCase() === tag.toLowerCase() ? undefined : tag })}
+              active={filters.tag?.toLowerCase() === tag.toLowerCase()}
+            >
+              {tag}
+            </FilterChip>
+          ))}
+        </div>
+        {filtered && (
+          <Link
+            href="/experiments"
+            className="inline-block text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Clear filters
+          </Link>
+        )}
+      </div>
+
+      {experiments.length === 0 && (
+        <p className="text-gray-600 dark:text-gray-400">No experiments match these filters.</p>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {experiments.map((exp) => (
           <Link
@@ -60,6 +156,12 @@ export default async function ExperimentsPage() {
               {exp.description}
             </p>
 
+            {exp.concepts.length > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 line-clamp-1">
+                {exp.concepts.join(' · ')}
+              </p>
+            )}
+
             <div className="flex flex-wrap gap-2 mb-3">
               {exp.tags.slice(0, 3).map((tag) => (
                 <span
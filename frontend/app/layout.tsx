@@ -1,6 +1,8 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import Link from 'next/link'
+import SearchBox from '@/components/SearchBox'
+import ContentRefresh from '@/components/ContentRefresh'
 
 export const metadata: Metadata = {
   title: 'V8 Optimization Lab',
@@ -19,12 +21,15 @@ export default function RootLayout({
           {/* Header */}
           <header className="border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950">
             <div className="container mx-auto px-4 py-4">
-              <div className="flex items-center justify-between">
-                <Link href="/" className="flex items-center space-x-2">
+              <div className="flex items-center justify-between gap-6">
+                <Link href="/" className="flex items-center space-x-2 shrink-0">
                   <span className="text-2xl font-bold text-gray-900 dark:text-white">
                     V8 Optimization Lab
                   </span>
                 </Link>
+                <div className="flex flex-1 justify-end">
+                  <SearchBox />
+                </div>
                 <nav className="flex space-x-6">
                   <Link
                     href="/docs"
@@ -54,6 +59,7 @@ export default function RootLayout({
             {children}
           </main>
         </div>
+        <ContentRefresh />
       </body>
     </html>
   )
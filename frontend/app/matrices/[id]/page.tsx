@@ -0,0 +1,193 @@
+import Link from 'next/link'
+import AutoRefresh from '@/components/AutoRefresh'
+
+type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+interface Matrix {
+  id: string
+  experiment: string
+  variant: string
+  status: RunStatus
+  options: {
+    trace: boolean
+    warmup: number
+    repeat: number
+    samples: number
+  }
+  createdAt: string
+  entries: {
+    runtime: string
+    runId: string
+    status: RunStatus
+    nodeVersion: string
+    v8Version: string
+    nsPerOp?: number
+    ci?: {
+      level: number
+      lower: number
+      upper: number
+    }
+    deoptCount: number | null
+  }[]
+}
+
+async function getMatrix(id: string): Promise<Matrix | null> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/matrices/${id}`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return null
+    return res.json()
+  } catch (error) {
+    return null
+  }
+}
+
+const statusColors = {
+  queued: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+}
+
+export default async function MatrixPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const matrix = await getMatrix(id)
+
+  if (!matrix) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center py-12">
+          <h1 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">
+            Matrix not found
+          </h1>
+          <Link
+            href="/experiments"
+            className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            ← Back to experiments
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const pending = matrix.entries.some((e) => e.status === 'queued' || e.status === 'running')
+  // Bars share one scale, including the upper end of every confidence interval
+  const scale = Math.max(0, ...matrix.entries.map((e) => e.ci?.upper ?? e.nsPerOp ?? 0))
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <AutoRefresh active={pending} />
+
+      <div className="mb-6">
+        <Link
+          href={`/experiments/${matrix.experiment}`}
+          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 mb-4 inline-block"
+        >
+          ← Back to experiment
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          {matrix.experiment} / {matrix.variant} - Node versions
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          {matrix.options.samples} {matrix.options.samples === 1 ? 'sample' : 'samples'} per runtime ·
+          warmup {matrix.options.warmup.toLocaleString()} ·
+          repeat {matrix.options.repeat.toLocaleString()}
+          {matrix.options.trace ? ' · tracing on' : ''}
+        </p>
+      </div>
+
+      {/* ns/op per V8 version */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 mb-8">
+        <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+          ns/op by V8 version
+        </h2>
+        <div className="space-y-3">
+          {matrix.entries.map((e) => (
+            <div key={e.runtime} className="flex items-center space-x-4">
+              <div className="w-48 shrink-0 text-right">
+                <div className="text-sm font-mono text-gray-900 dark:text-white">V8 {e.v8Version.replace(/-node\..*$/, '')}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">Node {e.nodeVersion}</div>
+              </div>
+              <div className="relative flex-1 h-6 bg-gray-100 dark:bg-gray-700 rounded">
+                {e.nsPerOp !== undefined && scale > 0 && (
+                  <div
+                    className="absolute inset-y-0 left-0 bg-blue-500 rounded"
+                    style={{ width: `${(e.nsPerOp / scale) * 100}%` }}
+                  />
+                )}
+                {e.ci && scale > 0 && (
+                  <div
+                    className="absolute top-1/2 h-0.5 bg-gray-900 dark:bg-white"
+                    style={{
+                      left: `${(e.ci.lower / scale) * 100}%`,
+                      width: `${((e.ci.upper - e.ci.lower) / scale) * 100}%`,
+                    }}
+                    title={`${Math.round(e.ci.level * 100)}% CI ${e.ci.lower.toFixed(2)} – ${e.ci.upper.toFixed(2)}`}
+                  />
+                )}
+              </div>
+              <div className="w-28 shrink-0 text-sm">
+                {e.nsPerOp !== undefined ? (
+                  <span className="text-gray-900 dark:text-white font-medium">{e.nsPerOp.toFixed(2)} ns</span>
+                ) : (
+                  <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${statusColors[e.status]}`}>
+                    {e.status}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        {matrix.options.samples > 1 && (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Lines show the confidence interval of the mean across samples.
+          </p>
+        )}
+      </div>
+
+      {/* Runs */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-6 py-3 text-left font-medium text-gray-600 dark:text-gray-400">Node</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600 dark:text-gray-400">V8</th>
+              <th className="px-6 py-3 text-left font-medium text-gray-600 dark:text-gray-400">Status</th>
+              <th className="px-6 py-3 text-right font-medium text-gray-600 dark:text-gray-400">ns/op</th>
+              <th className="px-6 py-3 text-right font-medium text-gray-600 dark:text-gray-400">Deopts</th>
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {matrix.entries.map((e) => (
+              <tr key={e.runtime}>
+                <td className="px-6 py-3 text-gray-900 dark:text-white">{e.nodeVersion}</td>
+                <td className="px-6 py-3 font-mono text-xs text-gray-900 dark:text-white">{e.v8Version}</td>
+                <td className="px-6 py-3">
+                  <span className={`inline-flex px-2 py-1 text-xs font-medium rounded ${statusColors[e.status]}`}>
+                    {e.status}
+                  </span>
+                </td>
+                <td className="px-6 py-3 text-right text-gray-900 dark:text-white">
+                  {e.nsPerOp !== undefined ? e.nsPerOp.toFixed(2) : '-'}
+                </td>
+                <td className="px-6 py-3 text-right text-gray-900 dark:text-white">{e.deoptCount ?? 'n/a'}</td>
+                <td className="px-6 py-3 text-right">
+                  <Link
+                    href={`/runs/${e.runId}`}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    View run →
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
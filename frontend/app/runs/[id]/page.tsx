@@ -1,16 +1,23 @@
 import Link from 'next/link'
 import LiveLogViewer from '@/components/LiveLogViewer'
+import DeoptTimeline, { TraceEvent } from '@/components/DeoptTimeline'
+import FlameGraph, { ProfileTree } from '@/components/FlameGraph'
+import RunActions from '@/components/RunActions'
 
 interface Run {
   id: string
   experiment: string
   variant: string
-  status: 'queued' | 'running' | 'completed' | 'failed'
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  failureReason?: 'error' | 'timeout' | 'interrupted'
   options: {
     trace: boolean
     profile: boolean
     warmup: number
     repeat: number
+    samples?: number
+    v8Flags?: string[]
+    timingSensitive?: boolean
   }
   timestamps: {
     queued: string
@@ -20,11 +27,51 @@ interface Run {
   environment: {
     nodeVersion: string
     v8Version: string
+    nodePath?: string
     platform: string
+    arch?: string
+    pinnedCpu?: number
+    gitSha?: string
+    gitDirty?: boolean
+    cpuModel?: string
+    cpuCount?: number
+    totalMemory?: number
+    loadAverage?: number[]
+    variantHash?: string
+    effectiveFlags?: string[]
   }
   results?: {
     exitCode: number
     durationMs: number
+    timeMs?: number
+    nsPerOp?: number
+    iterations?: number
+    warmupIterations?: number
+    sanity?: string | number | boolean | null
+    nsPerOpSamples?: number[]
+    statistics?: SampleStatistics
+  }
+  // Paths relative to the artifacts directory, set once the run finished
+  artifacts: {
+    stdout?: string
+    stderr?: string
+    trace?: string
+    cpuProfile?: string
+  }
+}
+
+interface SampleStatistics {
+  count: number
+  mean: number
+  median: number
+  stddev: number
+  min: number
+  max: number
+  p95: number
+  ci: {
+    level: number
+    lower: number
+    upper: number
   }
 }
 
@@ -40,6 +87,61 @@ async function getRun(id: string): Promise<Run | null> {
   }
 }
 
+async function getTraceEvents(id: string): Promise<TraceEvent[]> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/runs/${id}/trace-events`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return []
+    const data = await res.json()
+    return data.events
+  } catch (error) {
+    return []
+  }
+}
+
+async function getProfile(id: string): Promise<ProfileTree | null> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/runs/${id}/profile`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return null
+    return res.json()
+  } catch (error) {
+    return null
+  }
+}
+
+interface Artifact {
+  name: string
+  size: number
+  type: 'stdout' | 'stderr' | 'trace' | 'cpuprofile' | 'metadata' | 'other'
+}
+
+async function getArtifacts(id: string): Promise<Artifact[]> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/runs/${id}/artifacts`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return []
+    return res.json()
+  } catch (error) {
+    return []
+  }
+}
+
+const failureReasons = {
+  error: 'Experiment exited with an error',
+  timeout: 'Killed after exceeding the run timeout',
+  interrupted: 'Server stopped while the run was executing',
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
 function formatDate(isoString: string): string {
   const date = new Date(isoString)
   return date.toLocaleString()
@@ -67,6 +169,11 @@ export default async function RunPage({ params }: { params: Promise<{ id: string
     )
   }
 
+  const traced = Boolean(run.artifacts.trace)
+  const traceEvents = traced ? await getTraceEvents(run.id) : []
+  const profile = run.options.profile && run.status === 'completed' ? await getProfile(run.id) : null
+  const artifacts = await getArtifacts(run.id)
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="mb-6">
@@ -76,9 +183,12 @@ export default async function RunPage({ params }: { params: Promise<{ id: string
         >
           ← Back to runs
         </Link>
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-          {run.experiment} - {run.variant}
-        </h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {run.experiment} - {run.variant}
+          </h1>
+          <RunActions runId={run.id} status={run.status} />
+        </div>
       </div>
 
       {/* Run details */}
@@ -108,6 +218,25 @@ export default async function RunPage({ params }: { params: Promise<{ id: string
               <dt className="text-gray-600 dark:text-gray-400">Repeat:</dt>
               <dd className="text-gray-900 dark:text-white">{run.options.repeat.toLocaleString()}</dd>
             </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-600 dark:text-gray-400">Samples:</dt>
+              <dd className="text-gray-900 dark:text-white">{run.options.samples ?? 1}</dd>
+            </div>
+            {run.options.timingSensitive !== undefined && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Worker slot:</dt>
+                <dd className="text-gray-900 dark:text-white">
+                  {run.options.timingSensitive ? 'Exclusive (timing-sensitive)' : 'Shared'}
+                  {run.environment.pinnedCpu !== undefined && `, pinned to CPU ${run.environment.pinnedCpu}`}
+                </dd>
+              </div>
+            )}
+            {run.options.v8Flags && run.options.v8Flags.length > 0 && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">V8 flags:</dt>
+                <dd className="text-gray-900 dark:text-white font-mono text-xs">{run.options.v8Flags.join(' ')}</dd>
+              </div>
+            )}
           </dl>
         </div>
 
@@ -132,10 +261,39 @@ export default async function RunPage({ params }: { params: Promise<{ id: string
                 <dd className="text-gray-900 dark:text-white">{formatDate(run.timestamps.completed)}</dd>
               </div>
             )}
+            {run.failureReason && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Failure:</dt>
+                <dd className="text-red-700 dark:text-red-300">{failureReasons[run.failureReason]}</dd>
+              </div>
+            )}
             {run.results && (
               <>
+                {run.results.nsPerOp !== undefined && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600 dark:text-gray-400">Per op:</dt>
+                    <dd className="text-gray-900 dark:text-white font-medium">
+                      {run.results.nsPerOp.toFixed(2)} ns
+                    </dd>
+                  </div>
+                )}
+                {run.results.timeMs !== undefined && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600 dark:text-gray-400">Measured time:</dt>
+                    <dd className="text-gray-900 dark:text-white">
+                      {run.results.timeMs.toFixed(3)}ms
+                      {run.results.iterations !== undefined && ` (${run.results.iterations.toLocaleString()} iterations)`}
+                    </dd>
+                  </div>
+                )}
+                {run.results.sanity !== undefined && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600 dark:text-gray-400">Sanity check:</dt>
+                    <dd className="text-gray-900 dark:text-white font-mono text-xs">{String(run.results.sanity)}</dd>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <dt className="text-gray-600 dark:text-gray-400">Duration:</dt>
+                  <dt className="text-gray-600 dark:text-gray-400">Process duration:</dt>
                   <dd className="text-gray-900 dark:text-white font-medium">
                     {(run.results.durationMs / 1000).toFixed(2)}s
                   </dd>
@@ -154,10 +312,172 @@ export default async function RunPage({ params }: { params: Promise<{ id: string
               <dt className="text-gray-600 dark:text-gray-400">V8:</dt>
               <dd className="text-gray-900 dark:text-white text-xs">{run.environment.v8Version}</dd>
             </div>
+            {run.environment.nodePath && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Node binary:</dt>
+                <dd className="text-gray-900 dark:text-white text-xs font-mono break-all text-right">{run.environment.nodePath}</dd>
+              </div>
+            )}
           </dl>
         </div>
       </div>
 
+      {/* Environment the run was recorded in (runs from before this was
+          captured only have versions and platform) */}
+      {(run.environment.gitSha !== undefined || run.environment.cpuModel !== undefined) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">Environment</h2>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+            {run.environment.gitSha && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Commit:</dt>
+                <dd className="text-gray-900 dark:text-white font-mono text-xs" title={run.environment.gitSha}>
+                  {run.environment.gitSha.slice(0, 12)}
+                  {run.environment.gitDirty && <span className="ml-2 text-yellow-700 dark:text-yellow-300">(uncommitted changes)</span>}
+                </dd>
+              </div>
+            )}
+            {run.environment.variantHash && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">{run.variant}.js sha256:</dt>
+                <dd className="text-gray-900 dark:text-white font-mono text-xs" title={run.environment.variantHash}>
+                  {run.environment.variantHash.slice(0, 12)}
+                </dd>
+              </div>
+            )}
+            {run.environment.cpuModel && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">CPU:</dt>
+                <dd className="text-gray-900 dark:text-white text-xs text-right">
+                  {run.environment.cpuModel}
+                  {run.environment.cpuCount !== undefined && ` × ${run.environment.cpuCount}`}
+                </dd>
+              </div>
+            )}
+            {run.environment.totalMemory !== undefined && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Memory:</dt>
+                <dd className="text-gray-900 dark:text-white text-xs">
+                  {(run.environment.totalMemory / 1024 ** 3).toFixed(1)} GiB
+                </dd>
+              </div>
+            )}
+            {run.environment.loadAverage && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">Load at start (1/5/15 min):</dt>
+                <dd className="text-gray-900 dark:text-white text-xs">
+                  {run.environment.loadAverage.map((load) => load.toFixed(2)).join(' / ')}
+                </dd>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <dt className="text-gray-600 dark:text-gray-400">Platform:</dt>
+              <dd className="text-gray-900 dark:text-white text-xs">
+                {run.environment.platform}{run.environment.arch && `-${run.environment.arch}`}
+              </dd>
+            </div>
+            {run.environment.effectiveFlags && (
+              <div className="flex justify-between md:col-span-2">
+                <dt className="text-gray-600 dark:text-gray-400">Effective flags:</dt>
+                <dd className="text-gray-900 dark:text-white font-mono text-xs text-right break-all">
+                  {run.environment.effectiveFlags.length > 0 ? run.environment.effectiveFlags.join(' ') : '(none)'}
+                </dd>
+              </div>
+            )}
+          </dl>
+        </div>
+      )}
+
+      {/* Sample distribution */}
+      {run.results?.statistics && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+            Statistics ({run.results.statistics.count} samples, ns/op)
+          </h2>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            {([
+              ['Mean', run.results.statistics.mean],
+              ['Median', run.results.statistics.median],
+              ['Std dev', run.results.statistics.stddev],
+              ['p95', run.results.statistics.p95],
+              ['Min', run.results.statistics.min],
+              ['Max', run.results.statistics.max],
+            ] as const).map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-gray-600 dark:text-gray-400">{label}</dt>
+                <dd className="text-gray-900 dark:text-white font-medium">{value.toFixed(2)}</dd>
+              </div>
+            ))}
+            <div className="col-span-2">
+              <dt className="text-gray-600 dark:text-gray-400">
+                {Math.round(run.results.statistics.ci.level * 100)}% CI (bootstrap, mean)
+              </dt>
+              <dd className="text-gray-900 dark:text-white font-medium">
+                {run.results.statistics.ci.lower.toFixed(2)} – {run.results.statistics.ci.upper.toFixed(2)}
+              </dd>
+            </div>
+          </dl>
+          {run.results.nsPerOpSamples && (
+            <p className="mt-4 text-xs text-gray-500 dark:text-gray-400 font-mono">
+              Samples: {run.results.nsPerOpSamples.map((v) => v.toFixed(2)).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Deopt timeline */}
+      {traced && run.status !== 'queued' && run.status !== 'running' && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Optimization Timeline
+            </h2>
+            <Link
+              href={`/experiments/${run.experiment}?variant=${run.variant}&run=${run.id}#source`}
+              className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              View annotated source →
+            </Link>
+          </div>
+          <DeoptTimeline events={traceEvents} />
+        </div>
+      )}
+
+      {/* CPU profile */}
+      {profile && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+            CPU Profile
+          </h2>
+          <FlameGraph profile={profile} />
+        </div>
+      )}
+
+      {/* Artifacts */}
+      {artifacts.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+            Artifacts
+          </h2>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {artifacts.map((artifact) => (
+              <li key={artifact.name} className="flex items-center justify-between py-2">
+                <a
+                  href={`/api/runs/${run.id}/artifacts/${artifact.name}`}
+                  className="font-mono text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {artifact.name}
+                </a>
+                <span className="flex items-center space-x-3 text-gray-500 dark:text-gray-400">
+                  <span className="text-xs px-2 py-0.5 bg-gray-100 dark:bg-gray-700 rounded">{artifact.type}</span>
+                  <span>{formatSize(artifact.size)}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Live log viewer */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
         <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
@@ -4,7 +4,7 @@ interface Run {
   id: string
   experiment: string
   variant: string
-  status: 'queued' | 'running' | 'completed' | 'failed'
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
   timestamps: {
     queued: string
     started?: string
@@ -12,12 +12,56 @@ interface Run {
   }
   results?: {
     durationMs: number
+    nsPerOp?: number
   }
 }
 
-async function getRuns(): Promise<Run[]> {
+interface RunPage {
+  runs: Run[]
+  total: number
+  nextCursor: string | null
+}
+
+interface Experiment {
+  slug: string
+  name: string
+}
+
+type Filters = {
+  experiment?: string
+  variant?: string
+  status?: string
+  since?: string
+  cursor?: string
+}
+
+const FILTER_KEYS = ['experiment', 'variant', 'status', 'since', 'cursor'] as const
+
+function toQuery(filters: Filters): string {
+  const params = new URLSearchParams()
+  for (const key of FILTER_KEYS) {
+    const value = filters[key]
+    if (value) params.set(key, value)
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+async function getRuns(filters: Filters): Promise<RunPage> {
+  try {
+    const res = await fetch(`http://localhost:4000/api/runs${toQuery(filters)}`, {
+      cache: 'no-store'
+    })
+    if (!res.ok) return { runs: [], total: 0, nextCursor: null }
+    return res.json()
+  } catch (error) {
+    return { runs: [], total: 0, nextCursor: null }
+  }
+}
+
+async function getExperiments(): Promise<Experiment[]> {
   try {
-    const res = await fetch('http://localhost:4000/api/runs', {
+    const res = await fetch('http://localhost:4000/api/experiments', {
       cache: 'no-store'
     })
     if (!res.ok) return []
@@ -32,6 +76,7 @@ const statusColors = {
   running: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
   completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
   failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
 }
 
 function formatDate(isoString: string): string {
@@ -39,8 +84,24 @@ function formatDate(isoString: string): string {
   return date.toLocaleString()
 }
 
-export default async function RunsPage() {
-  const runs = await getRuns()
+export default async function RunsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const params = await searchParams
+  const filters: Filters = {}
+  for (const key of FILTER_KEYS) {
+    const value = params[key]
+    if (typeof value === 'string' && value) filters[key] = value
+  }
+
+  const [{ runs, total, nextCursor }, experiments] = await Promise.all([
+    getRuns(filters),
+    getExperiments(),
+  ])
+  const filtered = Boolean(filters.experiment || filters.variant || filters.status || filters.since)
+  const selectClass = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white'
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -49,11 +110,66 @@ export default async function RunsPage() {
           Run History
         </h1>
         <p className="text-gray-600 dark:text-gray-400">
-          {runs.length} experiment {runs.length === 1 ? 'run' : 'runs'}
+          {total} experiment {total === 1 ? 'run' : 'runs'}{filtered && ' matching the filters'}
         </p>
       </div>
 
-      {runs.length === 0 ? (
+      {/* Filters (a plain GET form, so the URL holds the filter state) */}
+      <form method="get" className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="flex flex-col text-xs text-gray-600 dark:text-gray-400">
+          Experiment
+          <select name="experiment" defaultValue={filters.experiment ?? ''} className={selectClass}>
+            <option value="">All</option>
+            {experiments.map((exp) => (
+              <option key={exp.slug} value={exp.slug}>{exp.slug}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 dark:text-gray-400">
+          Variant
+          <select name="variant" defaultValue={filters.variant ?? ''} className={selectClass}>
+            <option value="">All</option>
+            <option value="baseline">baseline</option>
+            <option value="deopt">deopt</option>
+            <option value="fixed">fixed</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 dark:text-gray-400">
+          Status
+          <select name="status" defaultValue={filters.status ?? ''} className={selectClass}>
+            <option value="">All</option>
+            {Object.keys(statusColors).map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 dark:text-gray-400">
+          Since
+          <input type="date" name="since" defaultValue={filters.since ?? ''} className={selectClass} />
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
+        >
+          Filter
+        </button>
+        {filtered && (
+          <Link
+            href="/runs"
+            className="px-4 py-2 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Clear
+          </Link>
+        )}
+      </form>
+
+      {runs.length === 0 && filtered ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <p className="text-gray-600 dark:text-gray-400">
+            No runs match these filters.
+          </p>
+        </div>
+      ) : runs.length === 0 ? (
         <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
           <p className="text-gray-600 dark:text-gray-400 mb-4">
             No runs yet. Start by running an experiment!
@@ -82,6 +198,9 @@ export default async function RunsPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Duration
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  ns/op
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Started
                 </th>
@@ -114,6 +233,11 @@ export default async function RunsPage() {
                       ? `${(run.results.durationMs / 1000).toFixed(2)}s`
                       : '-'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                    {run.results?.nsPerOp !== undefined
+                      ? run.results.nsPerOp.toFixed(2)
+                      : '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {formatDate(run.timestamps.queued)}
                   </td>
@@ -123,6 +247,28 @@ export default async function RunsPage() {
           </table>
         </div>
       )}
+
+      {/* Pagination */}
+      {(filters.cursor || nextCursor) && (
+        <div className="flex justify-between mt-4 text-sm">
+          {filters.cursor ? (
+            <Link
+              href={`/runs${toQuery({ ...filters, cursor: undefined })}`}
+              className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Newest
+            </Link>
+          ) : <span />}
+          {nextCursor && (
+            <Link
+              href={`/runs${toQuery({ ...filters, cursor: nextCursor })}`}
+              className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Older runs →
+            </Link>
+          )}
+        </div>
+      )}
     </div>
   )
 }
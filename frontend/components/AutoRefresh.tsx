@@ -0,0 +1,23 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface AutoRefreshProps {
+  active: boolean
+  intervalMs?: number
+}
+
+// Re-fetches the surrounding server component while `active` is true
+export default function AutoRefresh({ active, intervalMs = 3000 }: AutoRefreshProps) {
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!active) return
+
+    const timer = setInterval(() => router.refresh(), intervalMs)
+    return () => clearInterval(timer)
+  }, [active, intervalMs, router])
+
+  return null
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface CompareButtonProps {
+  experimentSlug: string
+  variants: string[]
+}
+
+export default function CompareButton({ experimentSlug, variants }: CompareButtonProps) {
+  const router = useRouter()
+  const [trace, setTrace] = useState(true)
+  const [samples, setSamples] = useState(5)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCompare = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/comparisons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          exp: experimentSlug,
+          trace,
+          samples,
+        }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to create comparison')
+      }
+
+      const data = await res.json()
+      router.push(`/comparisons/${data.id}`)
+    } catch (err: any) {
+      setError(err.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Runs {variants.join(', ')} back to back with identical options.
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 items-center">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={trace}
+            onChange={(e) => setTrace(e.target.checked)}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700 dark:text-gray-300">Count deopts</span>
+        </label>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>Samples</span>
+          <input
+            type="number"
+            value={samples}
+            onChange={(e) => setSamples(parseInt(e.target.value))}
+            min="1"
+            max="50"
+            className="w-20 px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleCompare}
+        disabled={loading || variants.length < 2}
+        className="w-full px-6 py-3 bg-gray-800 hover:bg-gray-900 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors"
+      >
+        {loading ? 'Queuing variants...' : 'Compare all variants'}
+      </button>
+    </div>
+  )
+}
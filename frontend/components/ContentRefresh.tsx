@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+// Reconnect delays after the socket drops, capped at the last one
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000]
+// How long the "updated" notice stays
+const NOTICE_MS = 3000
+
+interface ContentChange {
+  docs: string[]
+  experiments: string[]
+}
+
+// The content channel's messages and the subscribe reply, see runSocket.ts
+type ChannelMessage =
+  | { channel: string; seq: number; epoch: string; type: 'content:changed'; data: ContentChange }
+  | { channel: string; epoch: string; type: 'subscribed' }
+
+function describe(change: ContentChange): string {
+  const names = [...change.docs, ...change.experiments]
+  if (names.length === 0) return 'Content updated'
+  if (names.length > 2) return `Updated ${names.slice(0, 2).join(', ')} and ${names.length - 2} more`
+  return `Updated ${names.join(', ')}`
+}
+
+/**
+ * Re-renders the open page when docs or experiments change on disk, so
+ * authors see their edits without reloading. Rendered once, in the layout.
+ */
+export default function ContentRefresh() {
+  const router = useRouter()
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    let socket: WebSocket | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let attempts = 0
+    let closed = false
+    // Last sequence number seen; a reconnect replays changes missed since.
+    // Numbers start over when the server restarts, which changes its epoch
+    let lastSeq = 0
+    let epoch: string | null = null
+    // The first subscription replays an older change, which the page
+    // already shows; after a reconnect, replayed changes were missed
+    let replaying = true
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/ws`)
+
+      socket.onopen = () => {
+        attempts = 0
+        socket?.send(JSON.stringify({ type: 'subscribe', channel: 'content', since: lastSeq, epoch: epoch ?? undefined }))
+      }
+
+      socket.onmessage = (event) => {
+        let message: ChannelMessage
+        try {
+          message = JSON.parse(event.data)
+        } catch (error) {
+          return
+        }
+        if (message.channel !== 'content') return
+
+        if (message.type === 'subscribed') {
+          replaying = false
+          epoch = message.epoch
+          return
+        }
+        if (message.type !== 'content:changed') return
+
+        if (message.epoch !== epoch) {
+          epoch = message.epoch
+          lastSeq = 0
+        }
+        if (message.seq <= lastSeq) return
+
+        lastSeq = message.seq
+        // Changed before this page was loaded
+        if (replaying) return
+
+        router.refresh()
+        setNotice(describe(message.data))
+      }
+
+      socket.onclose = () => {
+        if (closed) return
+        const delay = RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)]
+        attempts++
+        reconnectTimer = setTimeout(connect, delay)
+      }
+    }
+
+    connect()
+
+    return () => {
+      closed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      socket?.close()
+    }
+  }, [router])
+
+  useEffect(() => {
+    if (!notice) return
+    const timer = setTimeout(() => setNotice(null), NOTICE_MS)
+    return () => clearTimeout(timer)
+  }, [notice])
+
+  if (!notice) return null
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-30 px-4 py-2 rounded-lg shadow-lg bg-gray-900 text-white text-sm dark:bg-gray-100 dark:text-gray-900"
+    >
+      {notice}
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { bestiaryLink } from '@/lib/bestiary'
+
+export interface TraceEvent {
+  seq: number
+  line: number
+  type: 'marked' | 'compiling' | 'optimized' | 'aborted' | 'deopt'
+  functionName: string
+  // Address of the function's SharedFunctionInfo
+  sfi?: string
+  tier?: 'Sparkplug' | 'Maglev' | 'TurboFan'
+  osr?: boolean
+  reason?: string
+  deoptKind?: 'eager' | 'lazy' | 'soft' | 'unknown'
+  bytecodeOffset?: number
+  sourcePosition?: {
+    file: string
+    line: number
+    column: number
+  }
+}
+
+type LaneState = 'interpreted' | 'Sparkplug' | 'Maglev' | 'TurboFan' | 'deoptimized' | 'reoptimized'
+
+interface Segment {
+  state: LaneState
+  tier?: TraceEvent['tier']
+  start: number
+  end: number
+}
+
+interface Lane {
+  key: string
+  functionName: string
+  sfi?: string
+  segments: Segment[]
+  deopts: TraceEvent[]
+}
+
+const stateColors: Record<LaneState, string> = {
+  interpreted: 'bg-gray-300 dark:bg-gray-600',
+  Sparkplug: 'bg-sky-300 dark:bg-sky-700',
+  Maglev: 'bg-indigo-400 dark:bg-indigo-600',
+  TurboFan: 'bg-green-500 dark:bg-green-600',
+  deoptimized: 'bg-red-300 dark:bg-red-800',
+  reoptimized: 'bg-amber-400 dark:bg-amber-600',
+}
+
+/**
+ * One lane per function. A lane starts at the function's first trace event
+ * and changes state on every completed optimization or deopt.
+ *
+ * Functions are told apart by name and SharedFunctionInfo address, so
+ * same-named and anonymous functions get a lane each.
+ */
+function buildLanes(events: TraceEvent[]): { lanes: Lane[]; length: number } {
+  const length = events.length
+  const byFunction = new Map<string, TraceEvent[]>()
+
+  for (const event of events) {
+    const key = `${event.functionName}@${event.sfi ?? ''}`
+    const list = byFunction.get(key) ?? []
+    list.push(event)
+    byFunction.set(key, list)
+  }
+
+  const lanes: Lane[] = []
+
+  for (const [key, fnEvents] of byFunction) {
+    const { functionName, sfi } = fnEvents[0]
+    const segments: Segment[] = []
+    const deopts: TraceEvent[] = []
+    let current: Segment = { state: 'interpreted', start: fnEvents[0].seq, end: length }
+    let deoptimizedBefore = false
+
+    const transition = (state: LaneState, seq: number, tier?: TraceEvent['tier']) => {
+      current.end = seq
+      if (current.end > current.start) segments.push(current)
+      current = { state, tier, start: seq, end: length }
+    }
+
+    for (const event of fnEvents) {
+      if (event.type === 'optimized') {
+        const tier = event.tier ?? 'TurboFan'
+        transition(deoptimizedBefore ? 'reoptimized' : tier, event.seq, tier)
+      } else if (event.type === 'deopt') {
+        deopts.push(event)
+        deoptimizedBefore = true
+        transition('deoptimized', event.seq)
+      }
+    }
+
+    current.end = length
+    if (current.end > current.start) segments.push(current)
+
+    lanes.push({ key, functionName, sfi, segments, deopts })
+  }
+
+  // Functions that deoptimized first, then by first appearance
+  lanes.sort((a, b) =>
+    (b.deopts.length > 0 ? 1 : 0) - (a.deopts.length > 0 ? 1 : 0) ||
+    a.segments[0]?.start - b.segments[0]?.start
+  )
+
+  return { lanes, length }
+}
+
+export default function DeoptTimeline({ events }: { events: TraceEvent[] }) {
+  const { lanes, length } = useMemo(() => buildLanes(events), [events])
+  const [selected, setSelected] = useState<TraceEvent | null>(null)
+
+  if (lanes.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No optimization or deopt events in the trace output.
+      </p>
+    )
+  }
+
+  // Names shared by several lanes get the address to tell them apart
+  const names = lanes.map((lane) => lane.functionName)
+  const label = (lane: Lane) =>
+    lane.sfi && names.indexOf(lane.functionName) !== names.lastIndexOf(lane.functionName)
+      ? `${lane.functionName} ${lane.sfi}`
+      : lane.functionName
+
+  const pct = (seq: number) => `${(seq / Math.max(length, 1)) * 100}%`
+  const link = selected ? bestiaryLink(selected.reason) : null
+
+  return (
+    <div className="space-y-4">
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-400">
+        {(Object.keys(stateColors) as LaneState[]).map((state) => (
+          <span key={state} className="flex items-center space-x-1">
+            <span className={`inline-block w-3 h-3 rounded ${stateColors[state]}`} />
+            <span>{state}</span>
+          </span>
+        ))}
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 rounded-full bg-red-600" />
+          <span>deopt (click for details)</span>
+        </span>
+      </div>
+
+      {/* Lanes */}
+      <div className="space-y-2">
+        {lanes.map((lane) => (
+          <div key={lane.key} className="flex items-center">
+            <div
+              className="w-40 shrink-0 pr-3 text-right text-xs font-mono text-gray-700 dark:text-gray-300 truncate"
+              title={lane.sfi ? `${lane.functionName} (sfi ${lane.sfi})` : lane.functionName}
+            >
+              {label(lane)}
+            </div>
+            <div className="relative flex-1 h-5 bg-gray-100 dark:bg-gray-900 rounded">
+              {lane.segments.map((segment) => (
+                <div
+                  key={`${segment.state}-${segment.start}`}
+                  className={`absolute top-0 h-full ${stateColors[segment.state]}`}
+                  style={{ left: pct(segment.start), width: pct(segment.end - segment.start) }}
+                  title={segment.tier && segment.state === 'reoptimized' ? `reoptimized (${segment.tier})` : segment.state}
+                />
+              ))}
+              {lane.deopts.map((deopt) => (
+                <button
+                  key={deopt.seq}
+                  type="button"
+                  onClick={() => setSelected(deopt)}
+                  className={`absolute top-0.5 w-4 h-4 -ml-2 rounded-full border-2 border-white dark:border-gray-800 ${
+                    selected?.seq === deopt.seq ? 'bg-red-800' : 'bg-red-600 hover:bg-red-700'
+                  }`}
+                  style={{ left: pct(deopt.seq) }}
+                  title={deopt.reason}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Selected deopt */}
+      {selected && link && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm">
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              <p className="font-medium text-red-900 dark:text-red-200">
+                {selected.functionName}: {selected.reason ?? 'Unknown reason'}
+              </p>
+              <p className="text-red-800 dark:text-red-300">
+                {selected.deoptKind ?? 'unknown'} deopt
+                {selected.tier ? ` from ${selected.tier}` : ''}
+                {selected.sourcePosition
+                  ? ` at line ${selected.sourcePosition.line}:${selected.sourcePosition.column}`
+                  : selected.bytecodeOffset !== undefined
+                    ? ` at bytecode offset ${selected.bytecodeOffset}`
+                    : ''}
+                {` (trace.log line ${selected.line})`}
+              </p>
+              <Link
+                href={link.href}
+                className="inline-block text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Deopt bestiary: {link.title} →
+              </Link>
+            </div>
+            <button
+              type="button"
+              onClick={() => setSelected(null)}
+              className="text-red-700 dark:text-red-300 hover:text-red-900"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
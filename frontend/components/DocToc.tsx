@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+export interface DocHeading {
+  depth: number
+  text: string
+  anchor: string
+  children: DocHeading[]
+}
+
+// A heading counts as current once it scrolls above this line (px from the top)
+const ACTIVE_OFFSET = 120
+
+/**
+ * Sticky table of contents of a doc, marking the section being read.
+ */
+export default function DocToc({ toc }: { toc: DocHeading[] }) {
+  const [active, setActive] = useState<string | null>(null)
+
+  useEffect(() => {
+    const anchors = toc.flatMap((heading) => [heading.anchor, ...heading.children.map((child) => child.anchor)])
+
+    const update = () => {
+      let current: string | null = null
+      for (const anchor of anchors) {
+        const element = document.getElementById(anchor)
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) current = anchor
+      }
+      setActive(current)
+    }
+
+    update()
+    window.addEventListener('scroll', update, { passive: true })
+    return () => window.removeEventListener('scroll', update)
+  }, [toc])
+
+  const link = (heading: DocHeading) => (
+    <a
+      href={`#${heading.anchor}`}
+      className={`block py-1 border-l-2 transition-colors ${
+        heading.depth === 3 ? 'pl-6' : 'pl-3'
+      } ${
+        heading.anchor === active
+          ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
+          : 'border-transparent text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white'
+      }`}
+    >
+      {heading.text}
+    </a>
+  )
+
+  return (
+    <nav aria-label="Table of contents" className="text-sm">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+        On this page
+      </h2>
+      <ul>
+        {toc.map((heading) => (
+          <li key={heading.anchor}>
+            {link(heading)}
+            {heading.children.length > 0 && (
+              <ul>
+                {heading.children.map((child) => (
+                  <li key={child.anchor}>{link(child)}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
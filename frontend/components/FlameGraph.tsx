@@ -0,0 +1,213 @@
+'use client'
+
+import { useState } from 'react'
+
+type FrameCategory = 'experiment' | 'node' | 'v8' | 'other'
+
+export interface ProfileNode {
+  id: number
+  functionName: string
+  url: string
+  line?: number
+  column?: number
+  category: FrameCategory
+  selfTime: number
+  totalTime: number
+  children: ProfileNode[]
+}
+
+export interface ProfileFunction {
+  functionName: string
+  url: string
+  line?: number
+  category: FrameCategory
+  selfTime: number
+  totalTime: number
+}
+
+export interface ProfileTree {
+  root: ProfileNode
+  totalTime: number
+  sampleCount: number
+  hotFunctions: ProfileFunction[]
+}
+
+const categoryColors: Record<FrameCategory, string> = {
+  experiment: 'bg-orange-400 hover:bg-orange-500 dark:bg-orange-600 dark:hover:bg-orange-500',
+  node: 'bg-sky-200 hover:bg-sky-300 dark:bg-sky-800 dark:hover:bg-sky-700',
+  v8: 'bg-gray-300 hover:bg-gray-400 dark:bg-gray-600 dark:hover:bg-gray-500',
+  other: 'bg-violet-300 hover:bg-violet-400 dark:bg-violet-700 dark:hover:bg-violet-600',
+}
+
+const categoryLabels: Record<FrameCategory, string> = {
+  experiment: 'experiment source',
+  node: 'Node internals',
+  v8: 'V8 / native',
+  other: 'other JS',
+}
+
+// Frames narrower than this share of the focused frame are not drawn
+const MIN_WIDTH = 0.005
+
+function location(frame: { url: string; line?: number }): string {
+  if (!frame.url) return 'native'
+  const file = frame.url.replace(/^file:\/\/.*\/experiments\//, 'experiments/')
+  return frame.line !== undefined ? `${file}:${frame.line}` : file
+}
+
+function formatMs(ms: number): string {
+  return ms >= 100 ? `${ms.toFixed(0)}ms` : `${ms.toFixed(2)}ms`
+}
+
+/**
+ * Icicle view: the root is on top and each row below splits its parent's
+ * width by total time. Click a frame to zoom in.
+ */
+function Frame({
+  node,
+  scale,
+  onHover,
+  onSelect,
+}: {
+  node: ProfileNode
+  scale: number
+  onHover: (node: ProfileNode | null) => void
+  onSelect: (node: ProfileNode) => void
+}) {
+  return (
+    <div className="min-w-0" style={{ width: `${(node.totalTime / scale) * 100}%` }}>
+      <button
+        type="button"
+        onClick={() => onSelect(node)}
+        onMouseEnter={() => onHover(node)}
+        onMouseLeave={() => onHover(null)}
+        className={`block w-full h-5 px-1 text-left text-xs font-mono truncate border-r border-b border-white dark:border-gray-800 text-gray-900 dark:text-gray-100 ${categoryColors[node.category]}`}
+      >
+        {node.functionName}
+      </button>
+      <div className="flex">
+        {node.children
+          .filter((child) => child.totalTime / scale >= MIN_WIDTH)
+          .map((child) => (
+            <Frame
+              key={child.id}
+              node={child}
+              scale={node.totalTime}
+              onHover={onHover}
+              onSelect={onSelect}
+            />
+          ))}
+      </div>
+    </div>
+  )
+}
+
+export default function FlameGraph({ profile }: { profile: ProfileTree }) {
+  // Path from the root to the zoomed-in frame
+  const [path, setPath] = useState<ProfileNode[]>([profile.root])
+  const [hovered, setHovered] = useState<ProfileNode | null>(null)
+
+  const focus = path[path.length - 1]
+  const details = hovered ?? focus
+
+  const select = (node: ProfileNode) => {
+    if (node === focus) return
+    const find = (from: ProfileNode, trail: ProfileNode[]): ProfileNode[] | null => {
+      if (from === node) return trail
+      for (const child of from.children) {
+        const found = find(child, [...trail, child])
+        if (found) return found
+      }
+      return null
+    }
+    setPath(find(focus, path) ?? path)
+  }
+
+  if (profile.totalTime === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        The profile contains no samples.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-400">
+        {(Object.keys(categoryColors) as FrameCategory[]).map((category) => (
+          <span key={category} className="flex items-center space-x-1">
+            <span className={`inline-block w-3 h-3 rounded ${categoryColors[category]}`} />
+            <span>{categoryLabels[category]}</span>
+          </span>
+        ))}
+        <span className="ml-auto">
+          {profile.sampleCount.toLocaleString()} samples, {formatMs(profile.totalTime)}
+        </span>
+      </div>
+
+      {/* Zoom breadcrumb */}
+      {path.length > 1 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs font-mono">
+          {path.map((node, i) => (
+            <button
+              key={node.id}
+              type="button"
+              onClick={() => setPath(path.slice(0, i + 1))}
+              className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {i > 0 && <span className="text-gray-400 mr-1">›</span>}
+              {node.functionName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Frame details */}
+      <div className="text-xs text-gray-700 dark:text-gray-300 font-mono h-4 truncate">
+        {details.functionName} — {location(details)} — total {formatMs(details.totalTime)} (
+        {((details.totalTime / profile.totalTime) * 100).toFixed(1)}%), self {formatMs(details.selfTime)}
+      </div>
+
+      <div className="overflow-x-auto">
+        <Frame node={focus} scale={focus.totalTime} onHover={setHovered} onSelect={select} />
+      </div>
+
+      {/* Hot functions */}
+      {profile.hotFunctions.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2 text-gray-900 dark:text-white">
+            Top functions by self time
+          </h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="py-1 pr-3">Function</th>
+                <th className="py-1 pr-3">Location</th>
+                <th className="py-1 pr-3 text-right">Self</th>
+                <th className="py-1 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {profile.hotFunctions.map((fn) => (
+                <tr key={`${fn.functionName}@${fn.url}:${fn.line}`}>
+                  <td className="py-1 pr-3 font-mono text-gray-900 dark:text-white">
+                    <span className={`inline-block w-2 h-2 mr-2 rounded ${categoryColors[fn.category]}`} />
+                    {fn.functionName}
+                  </td>
+                  <td className="py-1 pr-3 font-mono text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                    {location(fn)}
+                  </td>
+                  <td className="py-1 pr-3 text-right text-gray-900 dark:text-white">
+                    {formatMs(fn.selfTime)} ({((fn.selfTime / profile.totalTime) * 100).toFixed(1)}%)
+                  </td>
+                  <td className="py-1 text-right text-gray-600 dark:text-gray-400">{formatMs(fn.totalTime)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { ReactNode } from 'react'
+import Link from 'next/link'
+import { GlossaryEntry } from '@/lib/glossary'
+
+// A term in running text with its definition on hover or keyboard focus.
+// Only inline elements, since it sits inside paragraphs.
+export default function GlossaryTerm({ entry, children }: { entry: GlossaryEntry; children: ReactNode }) {
+  return (
+    <span className="relative group">
+      <Link
+        href={entry.url}
+        className="text-inherit no-underline border-b border-dotted border-gray-500 dark:border-gray-400 cursor-help"
+        aria-describedby={`glossary-${entry.id}`}
+      >
+        {children}
+      </Link>
+      <span
+        id={`glossary-${entry.id}`}
+        role="tooltip"
+        className="invisible opacity-0 group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100 transition-opacity absolute left-0 top-full z-20 mt-1 block w-72 p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg text-left text-sm font-normal not-italic"
+      >
+        <span className="block font-semibold text-gray-900 dark:text-white">
+          {entry.term}
+          {entry.aliases.length > 0 && (
+            <span className="font-normal text-gray-500 dark:text-gray-400"> ({entry.aliases.join(', ')})</span>
+          )}
+        </span>
+        <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{entry.category}</span>
+        <span className="block text-gray-700 dark:text-gray-300">{entry.summary}</span>
+        <span className="block mt-2 text-xs text-blue-600 dark:text-blue-400">Open in glossary →</span>
+      </span>
+    </span>
+  )
+}
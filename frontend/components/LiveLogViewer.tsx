@@ -1,60 +1,147 @@
 'use client'
 
 import { useEffect, useState, useRef } from 'react'
+import RunLog from '@/components/RunLog'
 
 interface LogViewerProps {
   runId: string
   initialStatus: string
 }
 
+// Reconnect delays after the socket drops, capped at the last one
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000]
+
+type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+// Messages on the run's channel and the queue channel, see RunChannelService
+type ChannelMessage = { channel: string; seq: number; epoch: string } & (
+  | { type: 'status'; data: RunStatus }
+  | { type: 'stdout' | 'stderr' | 'error'; data: string }
+  | { type: 'complete'; data: { status: RunStatus } }
+  | { type: 'queue'; data: { queued: string[] } }
+)
+
+// Replies to the client's own messages, see runSocket.ts
+type ControlMessage =
+  | { type: 'subscribed'; channel: string; epoch: string }
+  | { type: 'rejected'; channel: string; error: string }
+  | { type: 'invalid'; error: string }
+
 export default function LiveLogViewer({ runId, initialStatus }: LogViewerProps) {
   const [logs, setLogs] = useState<string[]>([])
   const [status, setStatus] = useState(initialStatus)
   const [isLive, setIsLive] = useState(initialStatus === 'queued' || initialStatus === 'running')
+  const [connected, setConnected] = useState(false)
+  const [queuePosition, setQueuePosition] = useState<number | null>(null)
   const logsEndRef = useRef<HTMLDivElement>(null)
   const [autoScroll, setAutoScroll] = useState(true)
+  // Last sequence number seen on the run channel; a reconnect resumes after it
+  const lastSeqRef = useRef(0)
+  // Server epoch of lastSeqRef; numbers start over when the server restarts
+  const epochRef = useRef<string | null>(null)
 
   useEffect(() => {
     if (!isLive) return
 
-    const eventSource = new EventSource(`/api/runs/${runId}/stream`)
+    const channel = `run:${runId}`
+    let socket: WebSocket | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let attempts = 0
+    let done = false
+
+    const handleMessage = (message: ChannelMessage | ControlMessage) => {
+      if (message.type === 'rejected') {
+        if (message.channel !== channel) return
+        setLogs((prev) => [...prev, `ERROR: ${message.error}`])
+        done = true
+        setIsLive(false)
+        return
+      }
 
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data)
+      if (message.type === 'queue') {
+        const index = message.data.queued.indexOf(runId)
+        setQueuePosition(index === -1 ? null : index + 1)
+        return
+      }
+
+      if (!('seq' in message) || message.channel !== channel) return
 
-        switch (data.type) {
-          case 'status':
-            setStatus(data.data)
-            break
+      // After a server restart the channel is numbered from 1 again
+      if (message.epoch !== epochRef.current) {
+        epochRef.current = message.epoch
+        lastSeqRef.current = 0
+      }
+      if (message.seq <= lastSeqRef.current) return
 
-          case 'stdout':
-          case 'stderr':
-            setLogs((prev) => [...prev, data.data])
-            break
+      // The server only buffers so much output per run
+      if (message.seq > lastSeqRef.current + 1 && lastSeqRef.current > 0) {
+        setLogs((prev) => [...prev, '\n[... earlier output dropped ...]\n'])
+      }
+      lastSeqRef.current = message.seq
+
+      switch (message.type) {
+        case 'status':
+          setStatus(message.data)
+          break
+
+        case 'stdout':
+        case 'stderr':
+          setLogs((prev) => [...prev, message.data])
+          break
+
+        case 'complete':
+          setStatus(message.data.status)
+          done = true
+          setIsLive(false)
+          socket?.close()
+          break
+
+        case 'error':
+          setLogs((prev) => [...prev, `ERROR: ${message.data}`])
+          break
+      }
+    }
 
-          case 'complete':
-            setStatus(data.data.status)
-            setIsLive(false)
-            eventSource.close()
-            break
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/ws`)
+
+      socket.onopen = () => {
+        attempts = 0
+        setConnected(true)
+        socket?.send(JSON.stringify({
+          type: 'subscribe',
+          channel,
+          since: lastSeqRef.current,
+          epoch: epochRef.current ?? undefined,
+        }))
+        socket?.send(JSON.stringify({ type: 'subscribe', channel: 'queue' }))
+      }
 
-          case 'error':
-            setLogs((prev) => [...prev, `ERROR: ${data.data}`])
-            break
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data))
+        } catch (error) {
+          console.error('Error parsing run channel message:', error)
         }
-      } catch (error) {
-        console.error('Error parsing SSE message:', error)
       }
-    }
 
-    eventSource.onerror = () => {
-      setIsLive(false)
-      eventSource.close()
+      socket.onclose = () => {
+        setConnected(false)
+        if (done) return
+
+        const delay = RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)]
+        attempts++
+        reconnectTimer = setTimeout(connect, delay)
+      }
     }
 
+    connect()
+
     return () => {
-      eventSource.close()
+      done = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      socket?.close()
     }
   }, [runId, isLive])
 
@@ -73,54 +160,62 @@ export default function LiveLogViewer({ runId, initialStatus }: LogViewerProps)
     running: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300 animate-pulse',
     completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
     failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
   }
 
   return (
     <div className="space-y-4">
       {/* Status bar */}
       <div className="flex items-center justify-between">
-        <span className={`inline-flex px-3 py-1 text-sm font-medium rounded ${statusColors[status as keyof typeof statusColors] || statusColors.queued}`}>
-          {status.toUpperCase()}
-        </span>
-
-        <div className="flex items-center space-x-2">
-          <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
-            <input
-              type="checkbox"
-              checked={autoScroll}
-              onChange={(e) => setAutoScroll(e.target.checked)}
-              className="w-4 h-4"
-            />
-            <span>Auto-scroll</span>
-          </label>
-
-          <button
-            onClick={handleCopy}
-            className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded transition-colors"
-          >
-            Copy logs
-          </button>
+        <div className="flex items-center space-x-3">
+          <span className={`inline-flex px-3 py-1 text-sm font-medium rounded ${statusColors[status as keyof typeof statusColors] || statusColors.queued}`}>
+            {status.toUpperCase()}
+          </span>
+          {isLive && !connected && (
+            <span className="text-sm text-yellow-700 dark:text-yellow-300">Reconnecting...</span>
+          )}
         </div>
-      </div>
 
-      {/* Log output */}
-      <div className="bg-gray-900 rounded-lg p-4 h-96 overflow-y-auto terminal">
-        {logs.length === 0 ? (
-          <div className="text-gray-500 text-sm">
-            {status === 'queued' ? 'Waiting in queue...' : 'Waiting for output...'}
+        {isLive && (
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={autoScroll}
+                onChange={(e) => setAutoScroll(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <span>Auto-scroll</span>
+            </label>
+
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded transition-colors"
+            >
+              Copy logs
+            </button>
           </div>
-        ) : (
-          <pre className="text-green-400 text-sm whitespace-pre-wrap font-mono">
-            {logs.join('')}
-          </pre>
         )}
-        <div ref={logsEndRef} />
       </div>
 
-      {!isLive && logs.length === 0 && status !== 'queued' && (
-        <p className="text-sm text-gray-500 dark:text-gray-500 text-center">
-          No logs captured for this run
-        </p>
+      {/* Live output; once the run finishes, its full log with search */}
+      {isLive ? (
+        <div className="bg-gray-900 rounded-lg p-4 h-96 overflow-y-auto terminal">
+          {logs.length === 0 ? (
+            <div className="text-gray-500 text-sm">
+              {status === 'queued'
+                ? `Waiting in queue${queuePosition !== null ? ` (position ${queuePosition})` : ''}...`
+                : 'Waiting for output...'}
+            </div>
+          ) : (
+            <pre className="text-green-400 text-sm whitespace-pre-wrap font-mono">
+              {logs.join('')}
+            </pre>
+          )}
+          <div ref={logsEndRef} />
+        </div>
+      ) : (
+        <RunLog runId={runId} />
       )}
     </div>
   )
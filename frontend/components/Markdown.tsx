@@ -0,0 +1,33 @@
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeHighlight from 'rehype-highlight'
+import GlossaryTerm from '@/components/GlossaryTerm'
+import { GlossaryEntry, remarkGlossary } from '@/lib/glossary'
+import { slugify, textContent } from '@/lib/slug'
+import 'highlight.js/styles/github-dark.css'
+
+/**
+ * Docs and experiment READMEs: GitHub-style heading ids (for links from
+ * search and the bestiary) and, given the glossary, a hover card on the
+ * first occurrence of each term.
+ */
+export default function Markdown({ children, glossary }: { children: string; glossary?: GlossaryEntry[] }) {
+  const terms = new Map(glossary?.map((entry) => [entry.id, entry]))
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={glossary ? [remarkGfm, [remarkGlossary, glossary]] : [remarkGfm]}
+      rehypePlugins={[rehypeHighlight]}
+      components={{
+        h2: ({ children }) => <h2 id={slugify(textContent(children))}>{children}</h2>,
+        h3: ({ children }) => <h3 id={slugify(textContent(children))}>{children}</h3>,
+        abbr: ({ node, children, ...props }) => {
+          const entry = terms.get(String(node?.properties?.dataTerm))
+          return entry ? <GlossaryTerm entry={entry}>{children}</GlossaryTerm> : <abbr {...props}>{children}</abbr>
+        },
+      }}
+    >
+      {children}
+    </ReactMarkdown>
+  )
+}
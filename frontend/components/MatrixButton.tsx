@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { NodeRuntime } from '@/components/RunForm'
+
+interface MatrixButtonProps {
+  experimentSlug: string
+  variants: string[]
+}
+
+export default function MatrixButton({ experimentSlug, variants }: MatrixButtonProps) {
+  const router = useRouter()
+  const [variant, setVariant] = useState(variants.includes('deopt') ? 'deopt' : variants[0] || 'baseline')
+  const [samples, setSamples] = useState(3)
+  const [runtimes, setRuntimes] = useState<NodeRuntime[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/runtimes')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setRuntimes(data))
+      .catch(() => setRuntimes([]))
+  }, [])
+
+  const handleRun = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/matrices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          exp: experimentSlug,
+          variant,
+          samples,
+        }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to create matrix')
+      }
+
+      const data = await res.json()
+      router.push(`/matrices/${data.id}`)
+    } catch (err: any) {
+      setError(err.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {runtimes.length > 0
+          ? `Runs one variant on ${runtimes.map((r) => r.nodeVersion).join(', ')}.`
+          : 'Runs one variant on every installed Node version.'}
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 items-center">
+        <select
+          value={variant}
+          onChange={(e) => setVariant(e.target.value)}
+          className="px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+        >
+          {variants.map((v) => (
+            <option key={v} value={v}>
+              {v}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>Samples</span>
+          <input
+            type="number"
+            value={samples}
+            onChange={(e) => setSamples(parseInt(e.target.value))}
+            min="1"
+            max="50"
+            className="w-20 px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={loading || runtimes.length < 2}
+        className="w-full px-6 py-3 bg-gray-800 hover:bg-gray-900 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors"
+      >
+        {loading ? 'Queuing runtimes...' : 'Run on all Node versions'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface RunActionsProps {
+  runId: string
+  status: string
+}
+
+export default function RunActions({ runId, status }: RunActionsProps) {
+  const router = useRouter()
+  const [pending, setPending] = useState<'cancel' | 'retry' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const active = status === 'queued' || status === 'running'
+
+  const handleCancel = async () => {
+    setPending('cancel')
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}`, { method: 'DELETE' })
+
+      // 409: the run finished before the request arrived, just show it
+      if (!res.ok && res.status !== 409) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to cancel run')
+      }
+
+      router.refresh()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleRetry = async () => {
+    setPending('retry')
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}/retry`, { method: 'POST' })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to re-run')
+      }
+
+      const data = await res.json()
+      router.push(`/runs/${data.id}`)
+    } catch (err: any) {
+      setError(err.message)
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-3">
+      {error && (
+        <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+      )}
+      {active && (
+        <button
+          type="button"
+          onClick={handleCancel}
+          disabled={pending !== null}
+          className="px-4 py-2 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors"
+        >
+          {pending === 'cancel' ? 'Cancelling...' : 'Cancel'}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={handleRetry}
+        disabled={pending !== null}
+        className="px-4 py-2 text-sm bg-gray-800 hover:bg-gray-900 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors"
+      >
+        {pending === 'retry' ? 'Queuing...' : 'Re-run'}
+      </button>
+    </div>
+  )
+}
@@ -1,8 +1,23 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 
+interface V8FlagPreset {
+  id: string
+  name: string
+  description: string
+  flags: string[]
+}
+
+export interface NodeRuntime {
+  id: string
+  nodeVersion: string
+  v8Version: string
+  path: string
+  default: boolean
+}
+
 interface RunFormProps {
   experimentSlug: string
   variants: string[]
@@ -15,9 +30,31 @@ export default function RunForm({ experimentSlug, variants }: RunFormProps) {
   const [profile, setProfile] = useState(false)
   const [warmup, setWarmup] = useState(1000)
   const [repeat, setRepeat] = useState(100000)
+  const [samples, setSamples] = useState(1)
+  const [presets, setPresets] = useState<V8FlagPreset[]>([])
+  const [v8Flags, setV8Flags] = useState('')
+  const [runtimes, setRuntimes] = useState<NodeRuntime[]>([])
+  // Empty: the node on PATH
+  const [runtime, setRuntime] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  useEffect(() => {
+    fetch('/api/v8-flags')
+      .then((res) => (res.ok ? res.json() : { presets: [] }))
+      .then((data) => setPresets(data.presets))
+      .catch(() => setPresets([]))
+
+    fetch('/api/runtimes')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setRuntimes(data))
+      .catch(() => setRuntimes([]))
+  }, [])
+
+  const selectedRuntime = runtimes.find((r) => r.id === runtime)
+
+  const flagList = v8Flags.split(/\s+/).filter(Boolean)
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -34,12 +71,16 @@ export default function RunForm({ experimentSlug, variants }: RunFormProps) {
           profile,
           warmup,
           repeat,
+          samples,
+          v8Flags: flagList,
+          ...(runtime && { runtime }),
         }),
       })
 
       if (!res.ok) {
         const data = await res.json()
-        throw new Error(data.error || 'Failed to create run')
+        const details = data.details?.map((d: { message: string }) => d.message).join(', ')
+        throw new Error(details ? `${data.error}: ${details}` : data.error || 'Failed to create run')
       }
 
       const data = await res.json()
@@ -129,6 +170,68 @@ export default function RunForm({ experimentSlug, variants }: RunFormProps) {
         </div>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Samples (independent processes)
+        </label>
+        <input
+          type="number"
+          value={samples}
+          onChange={(e) => setSamples(parseInt(e.target.value))}
+          min="1"
+          max="50"
+          className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+        />
+      </div>
+
+      {runtimes.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Node runtime
+          </label>
+          <select
+            value={runtime}
+            onChange={(e) => setRuntime(e.target.value)}
+            className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+          >
+            <option value="">node on PATH</option>
+            {runtimes.map((r) => (
+              <option key={r.id} value={r.id} title={r.path}>
+                Node {r.nodeVersion} (V8 {r.v8Version}){r.default ? ' - on PATH' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          V8 flags
+        </label>
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = presets.find((p) => p.id === e.target.value)
+            if (preset) setV8Flags(preset.flags.join(' '))
+          }}
+          className="w-full mb-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+        >
+          <option value="">Apply a preset...</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id} title={preset.description}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={v8Flags}
+          onChange={(e) => setV8Flags(e.target.value)}
+          placeholder="--trace-gc --max-inlined-bytecode-size=100"
+          className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white font-mono text-sm"
+        />
+      </div>
+
       {error && (
         <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-300">
           {error}
@@ -150,6 +253,8 @@ export default function RunForm({ experimentSlug, variants }: RunFormProps) {
           {profile ? ' --profile on' : ''}
           {warmup !== 1000 ? ` --warmup ${warmup}` : ''}
           {repeat !== 100000 ? ` --repeat ${repeat}` : ''}
+          {flagList.map((flag) => ` --v8-flag ${flag}`).join('')}
+          {selectedRuntime ? ` --node ${selectedRuntime.path}` : ''}
         </code>
       </p>
     </form>
@@ -0,0 +1,172 @@
+'use client'
+
+import { ReactNode, useEffect, useMemo, useState } from 'react'
+
+export interface RunLogLine {
+  n: number
+  t: number
+  stream: 'stdout' | 'stderr'
+  text: string
+}
+
+interface RunLogProps {
+  runId: string
+}
+
+// Lines requested per call to /api/runs/:id/log
+const PAGE_LINES = 5000
+// Lines rendered at once; search narrows down the rest
+const MAX_RENDERED_LINES = 2000
+
+// Lines printed by --trace-opt / --trace-deopt (see the server's traceParser)
+const TRACE_LINE_RE = /^\s*(\[(manually marking|marking|compiling method|completed optimizing|optimizing|bailout|deoptimizing|aborted optimizing|evicting|found optimized code)|;;; deoptimize)/
+
+type StreamFilter = 'all' | 'stdout' | 'stderr'
+type TraceFilter = 'all' | 'only' | 'hide'
+
+function formatOffset(ms: number): string {
+  return `+${(ms / 1000).toFixed(3)}s`
+}
+
+function highlight(text: string, query: string) {
+  if (!query) return text
+  const parts: ReactNode[] = []
+  const lower = text.toLowerCase()
+  let start = 0
+  let index = lower.indexOf(query)
+  while (index !== -1) {
+    parts.push(text.slice(start, index))
+    parts.push(
+      <mark key={index} className="bg-yellow-300 text-gray-900 rounded-sm">
+        {text.slice(index, index + query.length)}
+      </mark>
+    )
+    start = index + query.length
+    index = lower.indexOf(query, start)
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+/**
+ * Full, persisted output of a run with search and stream/trace filters.
+ */
+export default function RunLog({ runId }: RunLogProps) {
+  const [lines, setLines] = useState<RunLogLine[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [streamFilter, setStreamFilter] = useState<StreamFilter>('all')
+  const [traceFilter, setTraceFilter] = useState<TraceFilter>('all')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const loaded: RunLogLine[] = []
+      try {
+        // Page through the log, so very long traces arrive in pieces
+        for (let from = 0; ; from += PAGE_LINES) {
+          const res = await fetch(`/api/runs/${runId}/log?from=${from}&to=${from + PAGE_LINES}`)
+          if (!res.ok) throw new Error('Failed to load log')
+          const page: { lines: RunLogLine[]; total: number } = await res.json()
+          if (cancelled) return
+
+          loaded.push(...page.lines)
+          setLines([...loaded])
+          if (from + PAGE_LINES >= page.total) break
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [runId])
+
+  const query = search.trim().toLowerCase()
+  const startTime = lines[0]?.t ?? 0
+
+  const filtered = useMemo(
+    () =>
+      lines.filter((line) => {
+        if (streamFilter !== 'all' && line.stream !== streamFilter) return false
+        if (traceFilter !== 'all' && TRACE_LINE_RE.test(line.text) !== (traceFilter === 'only')) return false
+        return !query || line.text.toLowerCase().includes(query)
+      }),
+    [lines, streamFilter, traceFilter, query]
+  )
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(filtered.map((line) => line.text).join('\n'))
+  }
+
+  const selectClass =
+    'px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white'
+
+  return (
+    <div className="space-y-3">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search output..."
+          className={`flex-1 min-w-48 ${selectClass}`}
+        />
+        <select value={streamFilter} onChange={(e) => setStreamFilter(e.target.value as StreamFilter)} className={selectClass}>
+          <option value="all">stdout + stderr</option>
+          <option value="stdout">stdout</option>
+          <option value="stderr">stderr</option>
+        </select>
+        <select value={traceFilter} onChange={(e) => setTraceFilter(e.target.value as TraceFilter)} className={selectClass}>
+          <option value="all">All lines</option>
+          <option value="only">Trace lines only</option>
+          <option value="hide">Hide trace lines</option>
+        </select>
+        <button
+          onClick={handleCopy}
+          className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded transition-colors"
+        >
+          Copy
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {loading ? 'Loading... ' : ''}
+        {filtered.length === lines.length
+          ? `${lines.length.toLocaleString()} lines`
+          : `${filtered.length.toLocaleString()} of ${lines.length.toLocaleString()} lines`}
+        {filtered.length > MAX_RENDERED_LINES && ` · showing the first ${MAX_RENDERED_LINES.toLocaleString()}`}
+      </p>
+
+      {/* Log output */}
+      <div className="bg-gray-900 rounded-lg p-4 h-96 overflow-y-auto terminal">
+        {error ? (
+          <div className="text-red-400 text-sm">{error}</div>
+        ) : !loading && lines.length === 0 ? (
+          <div className="text-gray-500 text-sm">No logs captured for this run</div>
+        ) : (
+          <pre className="text-sm font-mono">
+            {filtered.slice(0, MAX_RENDERED_LINES).map((line) => (
+              <div key={line.n} className="flex">
+                <span className="w-24 shrink-0 pr-3 text-right text-gray-500 select-none">
+                  {formatOffset(line.t - startTime)}
+                </span>
+                <span className={`whitespace-pre-wrap break-all ${line.stream === 'stderr' ? 'text-red-400' : 'text-green-400'}`}>
+                  {highlight(line.text, query)}
+                </span>
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    </div>
+  )
+}
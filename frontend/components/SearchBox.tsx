@@ -0,0 +1,211 @@
+'use client'
+
+import { KeyboardEvent, ReactNode, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+type SearchKind = 'doc' | 'glossary' | 'experiment' | 'source'
+
+interface SearchHit {
+  kind: SearchKind
+  slug: string
+  title: string
+  heading?: string
+  variant?: string
+  line?: number
+  url: string
+  snippet: string
+  highlights: [number, number][]
+}
+
+interface SearchResult {
+  query: string
+  total: number
+  hits: SearchHit[]
+}
+
+// Wait for a pause in typing before asking the server
+const DEBOUNCE_MS = 150
+const MAX_HITS = 10
+
+const kindLabels: Record<SearchKind, string> = {
+  doc: 'Doc',
+  glossary: 'Glossary',
+  experiment: 'Experiment',
+  source: 'Source',
+}
+
+const kindColors: Record<SearchKind, string> = {
+  doc: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  glossary: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300',
+  experiment: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  source: 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+}
+
+function highlighted(hit: SearchHit): ReactNode[] {
+  const parts: ReactNode[] = []
+  let last = 0
+  hit.highlights.forEach(([start, end], i) => {
+    parts.push(hit.snippet.slice(last, start))
+    parts.push(
+      <mark key={i} className="bg-yellow-300 text-gray-900 rounded-sm">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    )
+    last = end
+  })
+  parts.push(hit.snippet.slice(last))
+  return parts
+}
+
+function location(hit: SearchHit): string {
+  if (hit.kind === 'source') return `${hit.title} › ${hit.variant}.js:${hit.line}`
+  return hit.heading ? `${hit.title} › ${hit.heading}` : hit.title
+}
+
+export default function SearchBox() {
+  const router = useRouter()
+  const [query, setQuery] = useState('')
+  const [result, setResult] = useState<SearchResult | null>(null)
+  const [open, setOpen] = useState(false)
+  const [selected, setSelected] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const q = query.trim()
+    if (!q) {
+      setResult(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=${MAX_HITS}`, {
+          signal: controller.signal,
+        })
+        if (!res.ok) return
+        setResult(await res.json())
+        setSelected(0)
+      } catch (error) {
+        // Aborted by the next keystroke, or the server is down
+      }
+    }, DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query])
+
+  // "/" focuses the search box, like on GitHub
+  useEffect(() => {
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (event.key !== '/' || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return
+      }
+      event.preventDefault()
+      inputRef.current?.focus()
+    }
+    const onClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    window.addEventListener('mousedown', onClick)
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('mousedown', onClick)
+    }
+  }, [])
+
+  const go = (hit: SearchHit) => {
+    setOpen(false)
+    inputRef.current?.blur()
+    router.push(hit.url)
+  }
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const hits = result?.hits ?? []
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setSelected((i) => Math.min(i + 1, hits.length - 1))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setSelected((i) => Math.max(i - 1, 0))
+    } else if (event.key === 'Enter' && hits[selected]) {
+      event.preventDefault()
+      go(hits[selected])
+    } else if (event.key === 'Escape') {
+      setOpen(false)
+      inputRef.current?.blur()
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-md">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={onKeyDown}
+        placeholder="Search docs, glossary, experiments… ( / )"
+        aria-label="Search"
+        className="w-full px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {open && query.trim() && result && (
+        <div className="absolute right-0 z-20 mt-2 w-[36rem] max-w-[90vw] max-h-[70vh] overflow-y-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          {result.hits.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+              No matches for “{result.query}”
+            </p>
+          ) : (
+            <ul>
+              {result.hits.map((hit, i) => (
+                <li key={hit.url}>
+                  <Link
+                    href={hit.url}
+                    onClick={() => setOpen(false)}
+                    onMouseEnter={() => setSelected(i)}
+                    className={`block px-4 py-3 border-b border-gray-100 dark:border-gray-800 ${
+                      i === selected ? 'bg-gray-100 dark:bg-gray-800' : ''
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${kindColors[hit.kind]}`}>
+                        {kindLabels[hit.kind]}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {location(hit)}
+                      </span>
+                    </div>
+                    <p
+                      className={`text-xs text-gray-600 dark:text-gray-400 line-clamp-2 ${
+                        hit.kind === 'source' ? 'font-mono' : ''
+                      }`}
+                    >
+                      {highlighted(hit)}
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.total > result.hits.length && (
+            <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+              Showing {result.hits.length} of {result.total} matches; add words to narrow down
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import Link from 'next/link'
+import hljs from 'highlight.js/lib/core'
+import javascript from 'highlight.js/lib/languages/javascript'
+
+hljs.registerLanguage('javascript', javascript)
+
+export interface SourceAnnotation {
+  line: number
+  column?: number
+  type: 'optimized' | 'aborted' | 'deopt'
+  functionName: string
+  tier?: string
+  reason?: string
+  deoptKind?: string
+  count: number
+}
+
+export interface VariantSource {
+  experiment: string
+  variant: string
+  source: string
+  run?: {
+    id: string
+    traced: boolean
+  }
+  annotations: SourceAnnotation[]
+}
+
+interface SourcePanelProps {
+  source: VariantSource
+  variants: string[]
+}
+
+const annotationStyles = {
+  deopt: 'bg-red-900/40 text-red-200 border-red-500',
+  aborted: 'bg-yellow-900/40 text-yellow-200 border-yellow-500',
+  optimized: 'bg-green-900/30 text-green-200 border-green-500',
+}
+
+const markerColors = {
+  deopt: 'bg-red-500',
+  aborted: 'bg-yellow-500',
+  optimized: 'bg-green-500',
+}
+
+// Highlighted HTML split into lines; tokens spanning several lines (block
+// comments, template literals) are closed and reopened at each line break
+function highlightLines(source: string): string[] {
+  const html = hljs.highlight(source, { language: 'javascript' }).value
+  const lines: string[] = []
+  const open: string[] = []
+  let current = ''
+
+  for (const [token] of html.matchAll(/<span[^>]*>|<\/span>|\n|[^<\n]+/g)) {
+    if (token === '\n') {
+      lines.push(current + '</span>'.repeat(open.length))
+      current = open.join('')
+    } else {
+      if (token === '</span>') open.pop()
+      else if (token.startsWith('<span')) open.push(token)
+      current += token
+    }
+  }
+  lines.push(current + '</span>'.repeat(open.length))
+  return lines
+}
+
+function describe(annotation: SourceAnnotation): string {
+  const tier = annotation.tier ? ` (${annotation.tier})` : ''
+  const times = annotation.count > 1 ? ` ×${annotation.count}` : ''
+
+  if (annotation.type === 'deopt') {
+    const kind = annotation.deoptKind ? `${annotation.deoptKind} ` : ''
+    const column = annotation.column !== undefined ? `, column ${annotation.column}` : ''
+    return `${kind}deopt in ${annotation.functionName}${tier}: ${annotation.reason ?? 'unknown reason'}${column}${times}`
+  }
+  if (annotation.type === 'aborted') {
+    return `optimization of ${annotation.functionName} aborted${tier}: ${annotation.reason ?? 'unknown reason'}${times}`
+  }
+  return `${annotation.functionName} optimized${tier}${times}`
+}
+
+/**
+ * Highlighted source of one variant; lines annotated with the
+ * optimizations and deopts of a traced run, if one was given.
+ */
+export default function SourcePanel({ source, variants }: SourcePanelProps) {
+  const lines = highlightLines(source.source)
+  const byLine = new Map<number, SourceAnnotation[]>()
+  for (const annotation of source.annotations) {
+    byLine.set(annotation.line, [...(byLine.get(annotation.line) ?? []), annotation])
+  }
+  const deopts = source.annotations.filter((a) => a.type === 'deopt').reduce((sum, a) => sum + a.count, 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          {variants.map((variant) => (
+            <Link
+              key={variant}
+              // The run's annotations only apply to its own variant
+              href={`/experiments/${source.experiment}?variant=${variant}${
+                source.run && variant === source.variant ? `&run=${source.run.id}` : ''
+              }#source`}
+              className={`px-3 py-1 text-sm rounded transition-colors ${
+                variant === source.variant
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200'
+              }`}
+            >
+              {variant}.js
+            </Link>
+          ))}
+        </div>
+
+        {source.run && (
+          <Link
+            href={`/runs/${source.run.id}`}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Annotations from run {source.run.id.slice(0, 8)} →
+          </Link>
+        )}
+      </div>
+
+      {source.run && !source.run.traced && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          This run was not traced, so there is nothing to annotate. Enable trace to see where functions are
+          optimized and deoptimized.
+        </p>
+      )}
+      {source.run?.traced && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {deopts === 0
+            ? 'No deopts in this file.'
+            : `${deopts} ${deopts === 1 ? 'deopt' : 'deopts'} in this file.`}{' '}
+          Deopts are placed at the position V8 reported; optimizations at the function declaration.
+        </p>
+      )}
+
+      <div className="hljs bg-gray-900 rounded-lg py-4 overflow-x-auto text-sm font-mono">
+        {lines.map((html, i) => {
+          const annotations = byLine.get(i + 1) ?? []
+          return (
+            <div key={i} id={`L${i + 1}`} className="scroll-mt-4">
+              <div className="flex">
+                <span className="relative w-12 shrink-0 pr-3 text-right text-gray-500 select-none">
+                  {annotations.length > 0 && (
+                    <span
+                      className={`absolute left-1 top-1.5 w-2 h-2 rounded-full ${
+                        markerColors[annotations.some((a) => a.type === 'deopt') ? 'deopt' : annotations[0].type]
+                      }`}
+                    />
+                  )}
+                  {i + 1}
+                </span>
+                <code className="whitespace-pre pr-4" dangerouslySetInnerHTML={{ __html: html || ' ' }} />
+              </div>
+              {annotations.map((annotation, j) => (
+                <div
+                  key={j}
+                  className={`ml-12 mr-4 my-1 px-3 py-1 text-xs border-l-2 rounded-r font-sans ${annotationStyles[annotation.type]}`}
+                >
+                  {describe(annotation)}
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
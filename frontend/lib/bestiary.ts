@@ -0,0 +1,26 @@
+import { slugify } from './slug'
+
+// Deopt reason keywords -> section of docs/03-deopt-bestiary.md
+const BESTIARY_SECTIONS: [RegExp, string][] = [
+  [/smi|heap number|type feedback|not a number|lost precision/i, '1. Type Instability'],
+  [/elements|double|packed|holey/i, '3. Elements Kind Transitions'],
+  [/out of bounds|hole|bounds/i, '9. Bounds Checks & Array Holes'],
+  [/prototype/i, '7. Prototype Chain Instability'],
+  [/arguments/i, '6. Arguments Object'],
+  [/wrong map|map check|deprecated map/i, '2. Shape Instability (Hidden Class Changes)'],
+  [/call target|polymorph|megamorph|wrong call|wrong feedback/i, '4. Polymorphism & Megamorphism'],
+  [/try|catch|exception/i, '5. Try-Catch & Bailout Conditions'],
+  [/string/i, '10. String Concatenation Patterns'],
+]
+
+export function bestiaryLink(reason?: string): { href: string; title: string } {
+  const section = reason
+    ? BESTIARY_SECTIONS.find(([pattern]) => pattern.test(reason))?.[1]
+    : undefined
+  const title = section ?? 'Quick Reference Table'
+
+  return {
+    href: `/docs/03-deopt-bestiary#${slugify(title)}`,
+    title,
+  }
+}
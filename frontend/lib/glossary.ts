@@ -0,0 +1,120 @@
+export const GLOSSARY_SLUG = '06-glossary'
+
+export interface GlossaryEntry {
+  id: string
+  term: string
+  aliases: string[]
+  category: string
+  definition: string
+  summary: string
+  url: string
+}
+
+// The parts of a markdown tree the plugin looks at
+interface MdNode {
+  type: string
+  value?: string
+  children?: MdNode[]
+  data?: Record<string, unknown>
+}
+
+// No links inside links, headings or code
+const SKIPPED_NODES = new Set(['heading', 'link', 'linkReference', 'inlineCode', 'code', 'html', 'definition'])
+
+// For server components
+export async function getGlossary(): Promise<GlossaryEntry[]> {
+  try {
+    const res = await fetch('http://localhost:4000/api/glossary', {
+      cache: 'no-store'
+    })
+    if (!res.ok) return []
+    return res.json()
+  } catch (error) {
+    return []
+  }
+}
+
+interface Name {
+  name: string
+  entry: GlossaryEntry
+  // Acronyms and very short names, so "IC" does not match "ic"
+  caseSensitive: boolean
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function matcherFor(entries: GlossaryEntry[]): { re: RegExp; names: Map<string, Name> } | null {
+  const names = new Map<string, Name>()
+  for (const entry of entries) {
+    // Short aliases like "Map" are too ambiguous, unless they are acronyms
+    const candidates = [entry.term, ...entry.aliases.filter((alias) => alias.length >= 4 || /^[A-Z0-9]+$/.test(alias))]
+    for (const name of candidates) {
+      const key = name.toLowerCase()
+      // The first term with a name keeps it
+      if (!names.has(key)) {
+        names.set(key, { name, entry, caseSensitive: /^[A-Z0-9]+$/.test(name) || name.length <= 3 })
+      }
+    }
+  }
+  if (names.size === 0) return null
+
+  const alternatives = [...names.values()]
+    .map(({ name }) => name)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  // Whole words, optionally plural
+  const re = new RegExp(`(?<![\\w-])(${alternatives.join('|')})(?:e?s)?(?![\\w-])`, 'gi')
+
+  return { re, names }
+}
+
+/**
+ * Remark plugin wrapping the first occurrence of each glossary term in
+ * an <abbr data-term="id">, for the Markdown component to render as a
+ * hover card.
+ */
+export function remarkGlossary(entries: GlossaryEntry[]) {
+  const matcher = matcherFor(entries)
+
+  return (tree: MdNode) => {
+    if (!matcher) return
+    const linked = new Set<string>()
+
+    const linkText = (text: string): MdNode[] => {
+      const nodes: MdNode[] = []
+      let last = 0
+      matcher.re.lastIndex = 0
+
+      for (let match = matcher.re.exec(text); match; match = matcher.re.exec(text)) {
+        const name = matcher.names.get(match[1].toLowerCase())
+        if (!name || (name.caseSensitive && match[1] !== name.name) || linked.has(name.entry.id)) continue
+
+        linked.add(name.entry.id)
+        if (match.index > last) nodes.push({ type: 'text', value: text.slice(last, match.index) })
+        nodes.push({
+          type: 'glossaryTerm',
+          data: { hName: 'abbr', hProperties: { dataTerm: name.entry.id } },
+          children: [{ type: 'text', value: match[0] }],
+        })
+        last = match.index + match[0].length
+      }
+
+      if (last === 0) return [{ type: 'text', value: text }]
+      if (last < text.length) nodes.push({ type: 'text', value: text.slice(last) })
+      return nodes
+    }
+
+    const visit = (node: MdNode) => {
+      if (!node.children) return
+      node.children = node.children.flatMap((child) => {
+        if (child.type === 'text') return linkText(child.value ?? '')
+        if (!SKIPPED_NODES.has(child.type)) visit(child)
+        return [child]
+      })
+    }
+
+    visit(tree)
+  }
+}
@@ -0,0 +1,20 @@
+// GitHub-style heading anchors, so links like
+// /docs/03-deopt-bestiary#1-type-instability match what GitHub renders
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s/g, '-')
+}
+
+// Plain text of rendered markdown children, used to build heading ids
+export function textContent(node: React.ReactNode): string {
+  if (node === null || node === undefined || typeof node === 'boolean') return ''
+  if (typeof node === 'string' || typeof node === 'number') return String(node)
+  if (Array.isArray(node)) return node.map(textContent).join('')
+  if (typeof node === 'object' && 'props' in node) {
+    return textContent((node.props as { children?: React.ReactNode }).children)
+  }
+  return ''
+}
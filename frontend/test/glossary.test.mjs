@@ -0,0 +1,76 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { remarkGlossary } from '../lib/glossary.ts'
+
+const entry = (id, term, aliases = []) => ({
+  id,
+  term,
+  aliases,
+  category: 'Terms',
+  definition: '',
+  summary: '',
+  url: `/docs/06-glossary#${id}`,
+})
+
+const ENTRIES = [
+  entry('inline-cache-ic', 'Inline Cache', ['IC']),
+  entry('hidden-class-shapemap', 'Hidden Class', ['Shape', 'Map']),
+  entry('deoptimization-deopt', 'Deoptimization', ['Deopt']),
+]
+
+const text = (value) => ({ type: 'text', value })
+const paragraph = (...children) => ({ type: 'paragraph', children })
+
+function link(tree, entries = ENTRIES) {
+  remarkGlossary(entries)(tree)
+  return tree
+}
+
+// Term ids of the linked words, in order
+function linkedTerms(node) {
+  if (node.type === 'glossaryTerm') return [[node.data.hProperties.dataTerm, node.children[0].value]]
+  return (node.children ?? []).flatMap(linkedTerms)
+}
+
+test('the first occurrence of each term is linked, short aliases are not', () => {
+  const tree = link({
+    type: 'root',
+    children: [paragraph(text('An inline cache remembers maps. Every inline cache has a hidden class.'))],
+  })
+
+  assert.deepEqual(linkedTerms(tree), [
+    ['inline-cache-ic', 'inline cache'],
+    ['hidden-class-shapemap', 'hidden class'],
+  ])
+  assert.deepEqual(
+    tree.children[0].children.map((node) => node.value ?? node.children[0].value),
+    ['An ', 'inline cache', ' remembers maps. Every inline cache has a ', 'hidden class', '.']
+  )
+})
+
+test('terms are matched as whole words', () => {
+  const tree = link({ type: 'root', children: [paragraph(text('A topic in the mapping of a deopt-free loop.'))] })
+  assert.deepEqual(linkedTerms(tree), [])
+})
+
+test('an uppercase abbreviation only matches in uppercase', () => {
+  const tree = link({ type: 'root', children: [paragraph(text('The ic of a call site, or its IC.'))] })
+  assert.deepEqual(linkedTerms(tree), [['inline-cache-ic', 'IC']])
+})
+
+test('headings, links and code are left alone', () => {
+  const tree = link({
+    type: 'root',
+    children: [
+      { type: 'heading', children: [text('Deoptimization')] },
+      paragraph({ type: 'link', children: [text('Deopt')] }, { type: 'inlineCode', value: 'deopt' }),
+      paragraph({ type: 'strong', children: [text('deopts')] }),
+    ],
+  })
+  assert.deepEqual(linkedTerms(tree), [['deoptimization-deopt', 'deopts']])
+})
+
+test('without a glossary the tree is unchanged', () => {
+  const tree = { type: 'root', children: [paragraph(text('An inline cache.'))] }
+  assert.deepEqual(link(structuredClone(tree), []), tree)
+})
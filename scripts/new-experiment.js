@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Experiment Generator
+ *
+ * Creates the next numbered experiment folder from experiments/_template,
+ * with title, description, tags and difficulty in the README frontmatter.
+ *
+ * Usage:
+ *   npx tsx scripts/new-experiment.js --name "Map vs Object lookups" \
+ *     --description "When a Map beats an object as a dictionary" --tag maps --difficulty intermediate
+ *
+ * Runs through tsx so it shares the scaffolding (and its name checks) with
+ * the API server (POST /api/experiments).
+ */
+
+import { join, relative } from 'path';
+import { CONFIG } from '../server/src/config.ts';
+import { ExperimentsService } from '../server/src/services/ExperimentsService.ts';
+import { newExperimentSchema } from '../server/src/validation.ts';
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+
+    switch (arg) {
+      case '--name':
+        options.name = next;
+        i++;
+        break;
+      case '--description':
+        options.description = next;
+        i++;
+        break;
+      case '--tag':
+        options.tags = [...(options.tags ?? []), next];
+        i++;
+        break;
+      case '--difficulty':
+        options.difficulty = next;
+        i++;
+        break;
+      case '--help':
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+function printHelp() {
+  console.log(`
+Experiment Generator
+
+Usage:
+  npm run new-exp -- --name <title> --description <text> [options]
+
+Options:
+  --name <title>          Experiment title; the folder name is derived from it
+  --description <text>    One-line summary of what it demonstrates
+  --tag <tag>             Tag (repeatable, at least one)
+  --difficulty <level>    beginner, intermediate or advanced
+  --help                  Show this help
+
+Examples:
+  npm run new-exp -- --name "Map vs Object lookups" \\
+    --description "When a Map beats an object as a dictionary" --tag maps --difficulty intermediate
+  npm run new-exp -- --name "Megamorphic getters" \\
+    --description "Getters on many shapes at one call site" --tag IC --tag getters --difficulty advanced
+`);
+}
+
+// Main
+(async () => {
+  try {
+    const validation = newExperimentSchema.safeParse(parseArgs());
+
+    if (!validation.success) {
+      for (const issue of validation.error.errors) {
+        console.error(`Invalid --${String(issue.path[0] ?? 'name').replace(/s$/, '')}: ${issue.message}`);
+      }
+      printHelp();
+      process.exit(1);
+    }
+
+    const experimentsService = new ExperimentsService();
+    const experiment = await experimentsService.createExperiment(validation.data);
+
+    if (!experiment) {
+      console.error(`An experiment named "${validation.data.name}" already exists`);
+      process.exit(1);
+    }
+
+    const dir = relative(process.cwd(), join(CONFIG.experimentsDir, experiment.slug));
+    console.log(`
+✅ Created ${dir}
+
+  Title:      ${experiment.name}
+  Tags:       ${experiment.tags.join(', ')}
+  Difficulty: ${experiment.difficulty}
+
+Next steps:
+  1. Fill in ${dir}/README.md
+  2. Implement baseline.js, deopt.js and fixed.js
+  3. npm run exp -- --exp ${experiment.slug} --variant deopt --trace on
+`);
+  } catch (error) {
+    console.error('\n❌ Error creating experiment:');
+    console.error(error.message);
+    console.error('\nStack trace:');
+    console.error(error.stack);
+    process.exit(1);
+  }
+})();
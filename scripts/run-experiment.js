@@ -10,16 +10,25 @@
  *   node scripts/run-experiment.js --exp 01-hidden-classes --variant baseline
  *   node scripts/run-experiment.js --exp 01-hidden-classes --variant deopt --trace on
  *   node scripts/run-experiment.js --exp 01-hidden-classes --variant fixed --profile on
+ *   node scripts/run-experiment.js --exp 01-hidden-classes --variant fixed --node ~/.nvm/versions/node/v22.20.0/bin/node
  */
 
 import { spawn } from 'child_process';
 import { mkdir, writeFile } from 'fs/promises';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
+import { parseResult } from '../experiments/_shared/harness.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const ROOT = join(__dirname, '..');
+// The API server passes its own (absolute) artifacts directory
+const ARTIFACTS_ROOT = process.env.ARTIFACTS_DIR
+  ? resolve(process.env.ARTIFACTS_DIR)
+  : join(ROOT, 'artifacts');
+
+// Tells the API server where this run's artifacts were written
+const ARTIFACTS_MARKER = '@@v8lab:artifacts';
 
 // Parse command line arguments
 function parseArgs() {
@@ -31,6 +40,9 @@ function parseArgs() {
     profile: false,
     warmup: 1000,
     repeat: 100000,
+    v8Flags: [],
+    // Node binary for the experiment process
+    node: process.execPath,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -62,6 +74,14 @@ function parseArgs() {
         options.repeat = parseInt(next, 10);
         i++;
         break;
+      case '--v8-flag':
+        options.v8Flags.push(next);
+        i++;
+        break;
+      case '--node':
+        options.node = next;
+        i++;
+        break;
       case '--help':
         printHelp();
         process.exit(0);
@@ -105,6 +125,9 @@ Options:
   --profile <on|off>    Capture CPU profile (default: off)
   --warmup <N>          Warmup iterations (default: 1000)
   --repeat <N>          Measurement iterations (default: 100000)
+  --v8-flag <flag>      Extra V8 flag for the experiment process (repeatable)
+  --node <path>         Node binary for the experiment process
+                        (default: the one running this script)
   --help                Show this help
 
 Examples:
@@ -112,6 +135,8 @@ Examples:
   npm run exp -- --exp 01-hidden-classes --variant deopt --trace on
   npm run exp -- --exp 05-polymorphism-megamorphism --variant fixed --profile on
   npm run exp -- --exp 03-elements-kinds --variant baseline --warmup 5000 --repeat 50000
+  npm run exp -- --exp 16-gc-allocation-pressure --variant deopt --v8-flag --trace-gc
+  npm run exp -- --exp 04-numbers-smis-doubles --variant deopt --node ~/.nvm/versions/node/v18.20.8/bin/node
 `);
 }
 
@@ -122,6 +147,8 @@ function buildNodeFlags(options, artifactDir) {
   if (options.trace) {
     flags.push('--trace-opt');
     flags.push('--trace-deopt');
+    // Adds the source position of each deopt, used to annotate the source
+    flags.push('--trace-deopt-verbose');
     // Note: --trace-ic may not be available in all Node versions
     // It's been removed in newer V8 versions, so we skip it
   }
@@ -131,17 +158,23 @@ function buildNodeFlags(options, artifactDir) {
     flags.push(`--cpu-prof-dir=${artifactDir}`);
   }
 
+  flags.push(...options.v8Flags);
+
   return flags;
 }
 
+// Trace output is kept for --trace on and for any extra --trace-* V8 flag
+function isTraced(options) {
+  return options.trace || options.v8Flags.some(flag => flag.startsWith('--trace-'));
+}
+
 // Run the experiment
 async function runExperiment(options) {
   const experimentDir = join(ROOT, 'experiments', options.exp);
   const scriptPath = join(experimentDir, `${options.variant}.js`);
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const artifactDir = join(
-    ROOT,
-    'artifacts',
+    ARTIFACTS_ROOT,
     options.exp,
     options.variant,
     timestamp
@@ -149,6 +182,7 @@ async function runExperiment(options) {
 
   // Create artifact directory
   await mkdir(artifactDir, { recursive: true });
+  console.log(`${ARTIFACTS_MARKER} ${JSON.stringify({ dir: artifactDir })}`);
 
   console.log(`
 ╔══════════════════════════════════════════════════════════════════════════╗
@@ -158,10 +192,12 @@ async function runExperiment(options) {
   Experiment: ${options.exp}
   Variant:    ${options.variant}
   Script:     ${scriptPath}
+  Node:       ${options.node}
   Trace:      ${options.trace ? 'ON' : 'OFF'}
   Profile:    ${options.profile ? 'ON' : 'OFF'}
   Warmup:     ${options.warmup.toLocaleString()} iterations
   Repeat:     ${options.repeat.toLocaleString()} iterations
+  V8 flags:   ${options.v8Flags.length > 0 ? options.v8Flags.join(' ') : '(none)'}
   Artifacts:  ${artifactDir}
 
 Starting...
@@ -178,23 +214,28 @@ Starting...
   };
 
   // Spawn node process
-  const nodeProcess = spawn('node', [...nodeFlags, scriptPath], {
+  const nodeProcess = spawn(options.node, [...nodeFlags, scriptPath], {
     env,
     cwd: ROOT,
   });
 
   let stdout = '';
   let stderr = '';
+  // V8 prints --trace-opt/--trace-deopt to stdout, so the trace log keeps
+  // both streams interleaved in arrival order
+  let trace = '';
 
   nodeProcess.stdout.on('data', (data) => {
     const chunk = data.toString();
     stdout += chunk;
+    trace += chunk;
     process.stdout.write(chunk);
   });
 
   nodeProcess.stderr.on('data', (data) => {
     const chunk = data.toString();
     stderr += chunk;
+    trace += chunk;
     if (options.trace) {
       // Only print trace output if explicitly enabled
       process.stderr.write(chunk);
@@ -206,23 +247,40 @@ Starting...
     }
   });
 
-  // Wait for completion
+  // Forward termination (e.g. a run cancelled from the web UI) so the
+  // experiment process does not outlive the runner
+  for (const signal of ['SIGTERM', 'SIGINT']) {
+    process.on(signal, () => nodeProcess.kill(signal));
+  }
+
+  // Wait for completion (a child killed by a signal has no exit code)
   const exitCode = await new Promise((resolve) => {
-    nodeProcess.on('close', resolve);
+    nodeProcess.on('close', (code) => resolve(code ?? 1));
+    // e.g. a --node path that does not exist
+    nodeProcess.on('error', (error) => {
+      console.error(`Failed to start ${options.node}: ${error.message}`);
+      resolve(1);
+    });
   });
 
   const endTime = process.hrtime.bigint();
   const durationMs = Number(endTime - startTime) / 1e6;
 
+  // Structured measurement reported by the variant through the shared harness
+  const measurement = parseResult(stdout);
+
   // Save artifacts
   await saveArtifacts(artifactDir, {
     options,
     stdout,
     stderr,
+    trace: isTraced(options) ? trace : '',
     exitCode,
     durationMs,
-    nodeVersion: process.version,
-    v8Version: process.versions.v8,
+    measurement,
+    // Versions of the experiment process, which may differ from ours (--node)
+    nodeVersion: measurement?.nodeVersion ?? process.version,
+    v8Version: measurement?.v8Version ?? process.versions.v8,
     platform: process.platform,
     arch: process.arch,
     timestamp,
@@ -236,12 +294,13 @@ Starting...
 
   Exit code:      ${exitCode}
   Total duration: ${durationMs.toFixed(2)}ms
+  Measured:       ${measurement ? `${measurement.timeMs.toFixed(3)}ms (${measurement.nsPerOp.toFixed(2)} ns/op)` : 'n/a'}
   Artifacts:      ${artifactDir}
 
 ${exitCode === 0 ? '✓ Success' : '✗ Failed'}
 `);
 
-  if (options.trace && stderr) {
+  if (isTraced(options) && trace) {
     console.log(`\nTrace log saved to: ${join(artifactDir, 'trace.log')}`);
   }
 
@@ -262,8 +321,10 @@ async function saveArtifacts(artifactDir, data) {
     options,
     stdout,
     stderr,
+    trace,
     exitCode,
     durationMs,
+    measurement,
     nodeVersion,
     v8Version,
     platform,
@@ -276,9 +337,14 @@ async function saveArtifacts(artifactDir, data) {
     await writeFile(join(artifactDir, 'stdout.log'), stdout, 'utf8');
   }
 
-  // Save stderr (trace output)
+  // Save stderr
   if (stderr) {
-    await writeFile(join(artifactDir, 'trace.log'), stderr, 'utf8');
+    await writeFile(join(artifactDir, 'stderr.log'), stderr, 'utf8');
+  }
+
+  // Save trace output
+  if (trace) {
+    await writeFile(join(artifactDir, 'trace.log'), trace, 'utf8');
   }
 
   // Save metadata JSON
@@ -290,10 +356,12 @@ async function saveArtifacts(artifactDir, data) {
       profile: options.profile,
       warmup: options.warmup,
       repeat: options.repeat,
+      v8Flags: options.v8Flags,
     },
     results: {
       exitCode,
       durationMs,
+      measurement,
     },
     environment: {
       nodeVersion,
@@ -312,7 +380,8 @@ async function saveArtifacts(artifactDir, data) {
 
   console.log(`\nArtifacts saved:`);
   console.log(`  - stdout.log`);
-  if (stderr) console.log(`  - trace.log`);
+  if (stderr) console.log(`  - stderr.log`);
+  if (trace) console.log(`  - trace.log`);
   console.log(`  - metadata.json`);
 }
 
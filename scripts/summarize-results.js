@@ -6,18 +6,23 @@
  * Analyzes artifacts from experiment runs and generates a readable report.
  *
  * Usage:
- *   node scripts/summarize-results.js [--exp <name>] [--latest N]
+ *   npx tsx scripts/summarize-results.js [--exp <name>] [--latest N]
+ *
+ * Runs through tsx so it can share the TypeScript trace parser with the
+ * API server (server/src/traceParser.ts).
  */
 
 import { readdir, readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { existsSync } from 'fs';
+import { parseTrace, summarizeTrace } from '../server/src/traceParser.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const ROOT = join(__dirname, '..');
 const ARTIFACTS_DIR = join(ROOT, 'artifacts');
+const SERVER_DIRS = ['runs', 'comparisons', 'verifications', 'matrices'];
 
 // Parse command line arguments
 function parseArgs() {
@@ -86,6 +91,8 @@ async function findResults(expFilter = null) {
 
   for (const exp of experiments) {
     if (expFilter && exp !== expFilter) continue;
+    // runs/, comparisons/ and verifications/ hold the API server's own records
+    if (SERVER_DIRS.includes(exp)) continue;
 
     const expDir = join(ARTIFACTS_DIR, exp);
     const variants = await readdir(expDir);
@@ -121,7 +128,7 @@ async function findResults(expFilter = null) {
   return results;
 }
 
-// Parse trace log for optimization info
+// Parse trace log for optimization info (same parser the API server uses)
 async function parseTraceLog(tracePath) {
   if (!existsSync(tracePath)) {
     return {
@@ -132,34 +139,21 @@ async function parseTraceLog(tracePath) {
   }
 
   const trace = await readFile(tracePath, 'utf8');
-  const lines = trace.split('\n');
-
-  const optimizations = [];
-  const deopts = [];
+  const events = parseTrace(trace);
+  const summary = summarizeTrace(events);
+
+  const deopts = events
+    .filter(event => event.type === 'deopt')
+    .map(event => ({
+      fn: event.functionName,
+      reason: event.reason || 'Unknown',
+      kind: event.deoptKind
+    }));
+
+  // Megamorphic transitions only show up with --trace-ic, which the
+  // trace parser does not model
   const megamorphic = [];
-
-  for (const line of lines) {
-    // Match optimization
-    if (line.includes('[marking') && line.includes('for optimization')) {
-      const match = line.match(/<JSFunction ([^>]+)>/);
-      if (match) {
-        optimizations.push(match[1]);
-      }
-    }
-
-    // Match deoptimization
-    if (line.includes('[deoptimizing')) {
-      const match = line.match(/<JSFunction ([^>]+)>/);
-      const reasonMatch = line.match(/Reason: ([^\]]+)/);
-      if (match) {
-        deopts.push({
-          fn: match[1],
-          reason: reasonMatch ? reasonMatch[1] : 'Unknown'
-        });
-      }
-    }
-
-    // Match megamorphic transitions
+  for (const line of trace.split('\n')) {
     if (line.includes('MEGAMORPHIC')) {
       const match = line.match(/in ~([^\s+]+)/);
       if (match) {
@@ -169,13 +163,23 @@ async function parseTraceLog(tracePath) {
   }
 
   return {
-    optimizations: [...new Set(optimizations)],
+    optimizations: summary.optimizedFunctions,
     deopts,
     megamorphic: [...new Set(megamorphic)]
   };
 }
 
-// Extract timing from stdout
+// Measured time in ms, preferring the structured harness result over stdout
+function getTiming(metadata, stdout) {
+  const measurement = metadata.results?.measurement;
+  if (measurement && typeof measurement.timeMs === 'number') {
+    return measurement.timeMs;
+  }
+
+  return extractTiming(stdout);
+}
+
+// Extract timing from stdout (runs recorded before the shared harness)
 function extractTiming(stdout) {
   const match = stdout.match(/Time:\s*([\d.]+)ms/);
   if (match) {
@@ -245,7 +249,8 @@ async function generateReport(results, options) {
           stdout = await readFile(stdoutPath, 'utf8');
         }
 
-        const timing = extractTiming(stdout);
+        const timing = getTiming(metadata, stdout);
+        const measurement = metadata.results?.measurement;
         const traceInfo = await parseTraceLog(tracePath);
 
         console.log(`\n  ┌ Run: ${run.timestamp}`);
@@ -256,6 +261,10 @@ async function generateReport(results, options) {
           console.log(`  │ Time: ${timing.toFixed(3)}ms`);
         }
 
+        if (measurement) {
+          console.log(`  │ Per op: ${measurement.nsPerOp.toFixed(2)}ns (${measurement.iterations.toLocaleString()} iterations)`);
+        }
+
         if (metadata.options.trace) {
           console.log(`  │`);
           console.log(`  │ Optimizations: ${traceInfo.optimizations.length}`);
@@ -267,8 +276,8 @@ async function generateReport(results, options) {
 
           console.log(`  │ Deopts: ${traceInfo.deopts.length}`);
           if (traceInfo.deopts.length > 0 && traceInfo.deopts.length <= 5) {
-            traceInfo.deopts.forEach(({ fn, reason }) => {
-              console.log(`  │   ✗ ${fn} - ${reason}`);
+            traceInfo.deopts.forEach(({ fn, reason, kind }) => {
+              console.log(`  │   ✗ ${fn} (${kind}) - ${reason}`);
             });
           } else if (traceInfo.deopts.length > 5) {
             console.log(`  │   ✗ ${traceInfo.deopts.length} deopts detected (see trace log)`);
@@ -302,12 +311,10 @@ async function generateReport(results, options) {
       const recentRun = runs[0];
       const stdoutPath = join(recentRun.path, 'stdout.log');
 
-      if (existsSync(stdoutPath)) {
-        const stdout = await readFile(stdoutPath, 'utf8');
-        const timing = extractTiming(stdout);
-        if (timing !== null) {
-          variantTimings[variant] = timing;
-        }
+      const stdout = existsSync(stdoutPath) ? await readFile(stdoutPath, 'utf8') : '';
+      const timing = getTiming(recentRun.metadata, stdout);
+      if (timing !== null) {
+        variantTimings[variant] = timing;
       }
     }
 
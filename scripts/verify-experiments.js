@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Expectation Checker
+ *
+ * Runs every experiment that declares `expectations` in its README
+ * frontmatter and reports pass/fail for each one, e.g. after a Node upgrade.
+ * Exits with code 1 if any expectation fails or cannot be checked.
+ *
+ * Usage:
+ *   npx tsx scripts/verify-experiments.js [--exp <name>]
+ *
+ * Runs through tsx so it checks expectations with the API server's own
+ * VerifyService (POST /api/verify): the same runs, with the same sample
+ * counts, evaluated the same way. The runs are recorded in the run
+ * history and the report in artifacts/verifications, so stop the API
+ * server first; both would write the run log.
+ */
+
+import { resolve } from 'path';
+import { CONFIG } from '../server/src/config.ts';
+import { verifyService } from '../server/src/services/VerifyService.ts';
+
+const STATUS_ICONS = { pass: '✓', fail: '✗', error: '!' };
+
+// Parse command line arguments
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    exp: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+
+    switch (arg) {
+      case '--exp':
+        options.exp.push(next);
+        i++;
+        break;
+      case '--help':
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+function printHelp() {
+  console.log(`
+Expectation Checker
+
+Usage:
+  npm run verify [-- --exp <name>]
+
+Options:
+  --exp <name>      Only check this experiment (repeatable; default: all
+                    experiments with expectations)
+  --help            Show this help
+
+Examples:
+  npm run verify
+  npm run verify -- --exp 05-polymorphism-megamorphism
+`);
+}
+
+function printVerification(verification) {
+  console.log(verification.experiment);
+  for (const result of verification.results) {
+    console.log(`  ${STATUS_ICONS[result.status]} ${result.description.padEnd(40)} ${result.message}`);
+  }
+  console.log(`  → ${verification.status}\n`);
+}
+
+// Main
+(async () => {
+  try {
+    const options = parseArgs();
+
+    console.log(`
+╔══════════════════════════════════════════════════════════════════════════╗
+║                        Verifying Expectations                             ║
+╚══════════════════════════════════════════════════════════════════════════╝
+
+  Node: ${process.version} (V8 ${process.versions.v8})
+`);
+
+    const report = await verifyService.runVerification(
+      options.exp.length > 0 ? options.exp : undefined,
+      printVerification
+    );
+
+    if (!report) {
+      console.error(`Unknown experiment: ${options.exp.join(', ')}`);
+      process.exit(1);
+    }
+
+    const { summary } = report;
+    console.log('='.repeat(78));
+    console.log(`Experiments: ${report.experiments.length}  Passed: ${summary.pass}  Failed: ${summary.fail}  Errors: ${summary.error}`);
+    console.log(`Report: ${resolve(CONFIG.artifactsDir, 'verifications', `${report.id}.json`)}\n`);
+
+    process.exit(summary.fail > 0 || summary.error > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('\n❌ Error verifying experiments:');
+    console.error(error.message);
+    console.error('\nStack trace:');
+    console.error(error.stack);
+    process.exit(1);
+  }
+})();
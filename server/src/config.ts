@@ -1,6 +1,7 @@
 import { config } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { homedir } from 'os';
 
 // Load .env from server directory
 const __filename = fileURLToPath(import.meta.url);
@@ -13,6 +14,20 @@ export const CONFIG = {
   artifactsDir: process.env.ARTIFACTS_DIR || join(__dirname, '../../artifacts'),
   experimentsDir: process.env.EXPERIMENTS_DIR || join(__dirname, '../../experiments'),
   docsDir: process.env.DOCS_DIR || join(__dirname, '../../docs'),
+  // Reload docs and experiments when their files change
+  watchContent: process.env.WATCH_CONTENT !== 'false',
   maxRunTimeoutMs: parseInt(process.env.MAX_RUN_TIMEOUT_MS || '600000', 10),
+  // Parallel slots for runs that are not timing-sensitive
+  runConcurrency: Math.max(1, parseInt(process.env.RUN_CONCURRENCY || '2', 10)),
+  // CPU for timing-sensitive runs; defaults to the last core
+  timingCpu: process.env.TIMING_CPU ? parseInt(process.env.TIMING_CPU, 10) : undefined,
+  // Where to look for Node runtimes besides the node on PATH: directories of
+  // installs (nvm, volta), single installs or node binaries. Comma-separated.
+  nodeRuntimes: process.env.NODE_RUNTIMES
+    ? process.env.NODE_RUNTIMES.split(',').map(entry => entry.trim()).filter(Boolean)
+    : [
+        join(process.env.NVM_DIR || join(homedir(), '.nvm'), 'versions', 'node'),
+        join(process.env.VOLTA_HOME || join(homedir(), '.volta'), 'tools', 'image', 'node'),
+      ],
   rootDir: join(__dirname, '../..'),
 };
@@ -0,0 +1,135 @@
+import { CpuProfile, ProfileFrameCategory, ProfileFunction, ProfileNode, ProfileTree } from './types.js';
+
+/**
+ * Turns a .cpuprofile (node --cpu-prof) into a call tree with self and
+ * total time per node.
+ *
+ * Each sample is charged the time until the next sample, which is how
+ * Chrome DevTools attributes time. Subtrees that were never sampled are
+ * dropped, so the tree only contains frames that actually cost time.
+ */
+
+const HOT_FUNCTION_LIMIT = 20;
+
+function categorize(url: string, experiment: string): ProfileFrameCategory {
+  if (!url) return 'v8';
+  if (url.startsWith('node:')) return 'node';
+  if (url.includes(`/experiments/${experiment}/`)) return 'experiment';
+  return 'other';
+}
+
+function displayName(functionName: string, url: string): string {
+  if (functionName) return functionName;
+  // Top-level module code has no function name
+  return url ? '(module)' : '(anonymous)';
+}
+
+/**
+ * Self time per profile node id, in microseconds
+ */
+function sampleDurations(profile: CpuProfile): Map<number, number> {
+  const selfTimes = new Map<number, number>();
+  const { samples, timeDeltas } = profile;
+
+  let timestamp = profile.startTime;
+  const timestamps = samples.map((_, i) => (timestamp += timeDeltas[i] ?? 0));
+
+  for (let i = 0; i < samples.length; i++) {
+    const next = i + 1 < samples.length ? timestamps[i + 1] : profile.endTime;
+    const duration = Math.max(0, next - timestamps[i]);
+    selfTimes.set(samples[i], (selfTimes.get(samples[i]) ?? 0) + duration);
+  }
+
+  return selfTimes;
+}
+
+export function parseCpuProfile(profile: CpuProfile, experiment: string): ProfileTree {
+  const nodesById = new Map(profile.nodes.map(node => [node.id, node]));
+  const selfTimes = sampleDurations(profile);
+
+  // The root is the one node nobody lists as a child
+  const childIds = new Set(profile.nodes.flatMap(node => node.children ?? []));
+  const rootNode = profile.nodes.find(node => !childIds.has(node.id)) ?? profile.nodes[0];
+
+  const build = (id: number): ProfileNode | null => {
+    const node = nodesById.get(id);
+    if (!node) return null;
+
+    const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+    const children = (node.children ?? [])
+      .map(build)
+      .filter((child): child is ProfileNode => child !== null)
+      .sort((a, b) => b.totalTime - a.totalTime);
+
+    const selfTime = (selfTimes.get(id) ?? 0) / 1000;
+    const totalTime = children.reduce((sum, child) => sum + child.totalTime, selfTime);
+    if (totalTime === 0 && id !== rootNode.id) return null;
+
+    return {
+      id,
+      functionName: displayName(functionName, url),
+      url,
+      line: lineNumber >= 0 ? lineNumber + 1 : undefined,
+      column: columnNumber >= 0 ? columnNumber + 1 : undefined,
+      category: categorize(url, experiment),
+      selfTime,
+      totalTime,
+      children,
+    };
+  };
+
+  const root = build(rootNode.id)!;
+
+  return {
+    root,
+    totalTime: root.totalTime,
+    sampleCount: profile.samples.length,
+    hotFunctions: hotFunctions(root),
+  };
+}
+
+/**
+ * Self and total time per function, merged across call sites. Total time
+ * is only counted once per stack so recursion does not inflate it.
+ */
+function hotFunctions(root: ProfileNode): ProfileFunction[] {
+  const functions = new Map<string, ProfileFunction>();
+
+  const visit = (node: ProfileNode, onStack: Set<string>) => {
+    const key = `${node.functionName}@${node.url}:${node.line ?? ''}`;
+    let entry = functions.get(key);
+    if (!entry) {
+      entry = {
+        functionName: node.functionName,
+        url: node.url,
+        line: node.line,
+        category: node.category,
+        selfTime: 0,
+        totalTime: 0,
+      };
+      functions.set(key, entry);
+    }
+
+    entry.selfTime += node.selfTime;
+    const recursive = onStack.has(key);
+    if (!recursive) {
+      entry.totalTime += node.totalTime;
+      onStack.add(key);
+    }
+
+    for (const child of node.children) {
+      visit(child, onStack);
+    }
+
+    if (!recursive) onStack.delete(key);
+  };
+
+  for (const child of root.children) {
+    visit(child, new Set());
+  }
+
+  return [...functions.values()]
+    .filter(fn => fn.selfTime > 0)
+    .sort((a, b) => b.selfTime - a.selfTime)
+    .slice(0, HOT_FUNCTION_LIMIT);
+}
@@ -0,0 +1,94 @@
+import { DiffRow } from './types.js';
+
+type Op = { type: 'equal' | 'removed' | 'added'; left?: number; right?: number };
+
+/**
+ * Line diff of two texts as rows of a side-by-side view.
+ *
+ * Lines come from a longest common subsequence; removed lines directly
+ * followed by added ones are paired up into "changed" rows, the rest stay
+ * on their own side. Line numbers are 1-based.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const rows: DiffRow[] = [];
+
+  let pending: Op[] = [];
+  const flush = () => {
+    const removed = pending.filter(op => op.type === 'removed');
+    const added = pending.filter(op => op.type === 'added');
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const left = removed[i] && { line: removed[i].left! + 1, text: a[removed[i].left!] };
+      const right = added[i] && { line: added[i].right! + 1, text: b[added[i].right!] };
+      rows.push({
+        type: left && right ? 'changed' : left ? 'removed' : 'added',
+        ...(left && { left }),
+        ...(right && { right }),
+      });
+    }
+    pending = [];
+  };
+
+  for (const op of diffOps(a, b)) {
+    if (op.type !== 'equal') {
+      pending.push(op);
+      continue;
+    }
+    flush();
+    rows.push({
+      type: 'equal',
+      left: { line: op.left! + 1, text: a[op.left!] },
+      right: { line: op.right! + 1, text: b[op.right!] },
+    });
+  }
+  flush();
+
+  return rows;
+}
+
+// Edit script by dynamic programming over the lines between the common
+// prefix and suffix; experiment files are small enough for O(n * m)
+function diffOps(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  // lcs[i * (m + 1) + j]: common lines of a[start + i..] and b[start + j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: 'equal', left: i, right: i });
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push({ type: 'equal', left: start + i++, right: start + j++ });
+    } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      ops.push({ type: 'added', right: start + j++ });
+    } else {
+      ops.push({ type: 'removed', left: start + i++ });
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    ops.push({ type: 'equal', left: endA + k, right: endB + k });
+  }
+  return ops;
+}
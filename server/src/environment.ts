@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { cpus, loadavg, totalmem } from 'os';
+import { join } from 'path';
+import { execa } from 'execa';
+import { CONFIG } from './config.js';
+import { RunMetadata } from './types.js';
+
+type RunEnvironment = RunMetadata['environment'];
+
+const GIT_TIMEOUT_MS = 5000;
+
+/**
+ * Commit and dirty flag of the repository, or nothing outside a git
+ * checkout (or without git installed).
+ */
+async function gitState(): Promise<Pick<RunEnvironment, 'gitSha' | 'gitDirty'>> {
+  try {
+    const options = { cwd: CONFIG.rootDir, timeout: GIT_TIMEOUT_MS };
+    const { stdout: sha } = await execa('git', ['rev-parse', 'HEAD'], options);
+    const { stdout: status } = await execa('git', ['status', '--porcelain'], options);
+    return { gitSha: sha.trim(), gitDirty: status.trim().length > 0 };
+  } catch (error) {
+    return {};
+  }
+}
+
+async function hashFile(path: string): Promise<string | undefined> {
+  try {
+    return createHash('sha256').update(await readFile(path)).digest('hex');
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Machine and source state when a run starts, so results stay attributable
+ * after the experiment code or the machine changes.
+ */
+export async function captureEnvironment(experiment: string, variant: string): Promise<Partial<RunEnvironment>> {
+  const cpuInfo = cpus();
+  const variantHash = await hashFile(join(CONFIG.experimentsDir, experiment, `${variant}.js`));
+
+  return {
+    ...await gitState(),
+    cpuModel: cpuInfo[0]?.model.trim(),
+    cpuCount: cpuInfo.length,
+    totalMemory: totalmem(),
+    loadAverage: loadavg(),
+    ...(variantHash && { variantHash }),
+  };
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { Expectation, ExpectationResult, ExpectationStatus, VariantMeasurement } from './types.js';
+
+/**
+ * Expectations are declared in an experiment's README frontmatter:
+ *
+ *   ---
+ *   expectations:
+ *     - variant: deopt
+ *       slowerThan: fixed
+ *       factor: 2          # deopt ≥ 2x slower than fixed
+ *     - variant: fixed
+ *       maxDeopts: 0       # fixed has zero deopts
+ *       function: getX     # ...in getX (the benchmark loop itself
+ *                          # deopts once it leaves its OSR'd loop)
+ *     - variant: deopt
+ *       minDeopts: 1
+ *   ---
+ *
+ * Timing expectations are checked against untraced multi-sample runs,
+ * comparing mean ns/op; deopt counts come from separate --trace-deopt runs
+ * so tracing never skews the timings.
+ */
+
+const variantSchema = z.enum(['baseline', 'deopt', 'fixed']);
+
+// Name of a function in the variant, as V8 prints it in the trace
+const functionSchema = z.string().min(1).max(100);
+
+export const expectationSchema = z.union([
+  z.object({
+    variant: variantSchema,
+    slowerThan: variantSchema,
+    factor: z.number().positive().default(1),
+  }).strict(),
+  z.object({ variant: variantSchema, maxDeopts: z.number().int().min(0), function: functionSchema.optional() }).strict(),
+  z.object({ variant: variantSchema, minDeopts: z.number().int().min(0), function: functionSchema.optional() }).strict(),
+]);
+
+export const expectationsSchema = z.array(expectationSchema);
+
+export function describeExpectation(expectation: Expectation): string {
+  if ('slowerThan' in expectation) {
+    return `${expectation.variant} ≥ ${expectation.factor}x slower than ${expectation.slowerThan}`;
+  }
+  const scope = expectation.function ? ` in ${expectation.function}` : '';
+  if ('maxDeopts' in expectation) {
+    return expectation.maxDeopts === 0
+      ? `${expectation.variant} has zero deopts${scope}`
+      : `${expectation.variant} has at most ${expectation.maxDeopts} deopts${scope}`;
+  }
+  return `${expectation.variant} has at least ${expectation.minDeopts} deopts${scope}`;
+}
+
+/**
+ * Variants that need a timing run and variants that need a traced run
+ */
+export function requiredRuns(expectations: Expectation[]): { timing: string[]; traced: string[] } {
+  const timing = new Set<string>();
+  const traced = new Set<string>();
+
+  for (const expectation of expectations) {
+    if ('slowerThan' in expectation) {
+      timing.add(expectation.variant);
+      timing.add(expectation.slowerThan);
+    } else {
+      traced.add(expectation.variant);
+    }
+  }
+
+  return { timing: [...timing], traced: [...traced] };
+}
+
+// Mean ns/op, with the confidence interval when there were several samples
+function formatNsPerOp(measurement: VariantMeasurement): string {
+  const { nsPerOp = 0, ci } = measurement;
+  return ci
+    ? `${nsPerOp.toFixed(2)} ns/op (CI ${ci.lower.toFixed(2)}–${ci.upper.toFixed(2)})`
+    : `${nsPerOp.toFixed(2)} ns/op`;
+}
+
+function missing(variant: string, measurement: VariantMeasurement | undefined, what: string): string {
+  return measurement?.error
+    ? `${variant}: ${measurement.error}`
+    : `${variant}: no ${what} reported`;
+}
+
+/**
+ * @param timing  Untraced measurements by variant
+ * @param traced  Traced measurements by variant
+ */
+export function evaluateExpectation(
+  expectation: Expectation,
+  timing: Record<string, VariantMeasurement>,
+  traced: Record<string, VariantMeasurement>
+): ExpectationResult {
+  const description = describeExpectation(expectation);
+
+  if ('slowerThan' in expectation) {
+    const slow = timing[expectation.variant];
+    const fast = timing[expectation.slowerThan];
+    if (slow?.nsPerOp === undefined) {
+      return { description, status: 'error', message: missing(expectation.variant, slow, 'ns/op') };
+    }
+    if (fast?.nsPerOp === undefined) {
+      return { description, status: 'error', message: missing(expectation.slowerThan, fast, 'ns/op') };
+    }
+
+    const ratio = slow.nsPerOp / fast.nsPerOp;
+    return {
+      description,
+      status: ratio >= expectation.factor ? 'pass' : 'fail',
+      actual: ratio,
+      message: `${expectation.variant} ${formatNsPerOp(slow)} vs ${expectation.slowerThan} ${formatNsPerOp(fast)}: ${ratio.toFixed(2)}x`,
+    };
+  }
+
+  const measurement = traced[expectation.variant];
+  const byFunction = measurement?.deoptsByFunction;
+  const count = expectation.function
+    ? byFunction && (byFunction[expectation.function] ?? 0)
+    : measurement?.deoptCount;
+  if (count === undefined) {
+    return { description, status: 'error', message: missing(expectation.variant, measurement, 'deopt count') };
+  }
+
+  const pass = 'maxDeopts' in expectation ? count <= expectation.maxDeopts : count >= expectation.minDeopts;
+  return {
+    description,
+    status: pass ? 'pass' : 'fail',
+    actual: count,
+    message: `${expectation.function ?? expectation.variant} deoptimized ${count} ${count === 1 ? 'time' : 'times'}`,
+  };
+}
+
+// Worst status wins: error > fail > pass
+export function overallStatus(results: ExpectationResult[]): ExpectationStatus {
+  if (results.some(r => r.status === 'error')) return 'error';
+  if (results.some(r => r.status === 'fail')) return 'fail';
+  return 'pass';
+}
@@ -0,0 +1,128 @@
+import { anchorFor, headingText, plainText } from './search.js';
+import { GlossaryEntry } from './types.js';
+
+// Longest summary shown in a hover card
+const SUMMARY_LENGTH = 200;
+
+// "- **GC**: Garbage Collector" in a section without ### terms
+const LIST_TERM_RE = /^\s*[-*]\s+\*\*([^*]+)\*\*:\s*(.+)$/;
+
+// Synonyms are capitalized: "Hidden Class (Shape/Map)", not "Holes (in arrays)"
+function isName(text: string): boolean {
+  return /^[A-Z]/.test(text);
+}
+
+function summarize(definition: string): string {
+  const text = plainText(definition);
+  if (text.length <= SUMMARY_LENGTH) return text;
+
+  // Whole sentences if possible, else whole words
+  const cut = text.slice(0, SUMMARY_LENGTH);
+  const sentence = cut.lastIndexOf('. ');
+  if (sentence > SUMMARY_LENGTH / 3) return cut.slice(0, sentence + 1);
+  return `${cut.slice(0, cut.lastIndexOf(' '))}…`;
+}
+
+// Term and synonyms of a heading like `Inline Cache (IC)` or `"Wrong map"`
+function namesOf(heading: string): { term: string; aliases: string[] } {
+  const match = heading.match(/^(.*?)\s*\(([^)]*)\)$/);
+  const [first, ...others] = (match ? match[1] : heading).split(' / ').map(name => name.replace(/^"|"$/g, ''));
+  const synonyms = match ? match[2].split(/[/,]/).map(name => name.trim()).filter(isName) : [];
+
+  return { term: first, aliases: [...others, ...synonyms] };
+}
+
+/**
+ * Terms of the glossary: every ### heading with the text below it, and
+ * the "**Term**: definition" items of sections without headings (the
+ * abbreviations). An abbreviation of a term with its own heading becomes
+ * an alias of that term instead.
+ */
+export function parseGlossary(markdown: string, url: string): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+  const ids = new Set<string>();
+  let category = '';
+  let categoryAnchor = '';
+  let current: { heading: string; lines: string[] } | null = null;
+  let listTerms: { term: string; definition: string }[] = [];
+  let inFence = false;
+
+  // Ids are heading anchors, or made from the term when several terms share a heading
+  const add = (entry: Omit<GlossaryEntry, 'id' | 'summary' | 'url'>, anchor: string, base = anchor) => {
+    // Duplicate headings get GitHub's -1, -2 suffix
+    let id = base;
+    for (let n = 1; ids.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    ids.add(id);
+    entries.push({ id, ...entry, summary: summarize(entry.definition), url: `${url}#${anchor}` });
+  };
+
+  const flushTerm = () => {
+    if (!current) return;
+    const text = headingText(current.heading);
+    const definition = current.lines.join('\n').trim();
+    if (definition) {
+      add({ ...namesOf(text), category, definition }, anchorFor(text));
+    }
+    current = null;
+  };
+
+  const flushSection = () => {
+    flushTerm();
+    for (const { term, definition } of listTerms) {
+      const existing = entries.find(entry =>
+        entry.aliases.includes(term) || entry.term.toLowerCase() === definition.toLowerCase()
+      );
+      if (existing) {
+        if (!existing.aliases.includes(term)) existing.aliases.push(term);
+        continue;
+      }
+
+      const expansion = definition.replace(/\s*\(.*\)$/, '');
+      const aliases = isName(expansion) ? [expansion] : [];
+      add({ term, aliases, category, definition }, categoryAnchor, anchorFor(term));
+    }
+    listTerms = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : line.match(/^(#{2,3})\s+(.+?)\s*#*\s*$/);
+    if (heading?.[1] === '##') {
+      flushSection();
+      category = headingText(heading[2]);
+      categoryAnchor = anchorFor(category);
+    } else if (heading) {
+      flushTerm();
+      current = { heading: heading[2], lines: [] };
+    } else if (!inFence && /^---+\s*$/.test(line)) {
+      // Rule between sections
+      flushTerm();
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      const item = line.match(LIST_TERM_RE);
+      if (item) listTerms.push({ term: item[1].trim(), definition: item[2].trim() });
+    }
+  }
+  flushSection();
+
+  return entries;
+}
+
+/**
+ * Entry by id, or by term or alias, ignoring case: "inline-cache-ic",
+ * "Inline Cache" and "ic" all find the same entry.
+ */
+export function findGlossaryEntry(entries: GlossaryEntry[], term: string): GlossaryEntry | null {
+  const name = term.trim().toLowerCase();
+  return (
+    entries.find(entry => entry.id === name) ??
+    entries.find(entry => [entry.term, ...entry.aliases].some(alias => alias.toLowerCase() === name)) ??
+    null
+  );
+}
@@ -6,6 +6,16 @@ import { CONFIG } from './config.js';
 import docsRouter from './routes/docs.js';
 import experimentsRouter from './routes/experiments.js';
 import runsRouter from './routes/runs.js';
+import comparisonsRouter from './routes/comparisons.js';
+import matricesRouter from './routes/matrices.js';
+import runtimesRouter from './routes/runtimes.js';
+import v8FlagsRouter from './routes/v8Flags.js';
+import verifyRouter from './routes/verify.js';
+import searchRouter from './routes/search.js';
+import glossaryRouter from './routes/glossary.js';
+import { attachRunSocket } from './routes/runSocket.js';
+import { runService } from './services/RunService.js';
+import { contentWatchService } from './services/ContentWatchService.js';
 
 const app = express();
 
@@ -29,6 +39,13 @@ app.get('/health', (req, res) => {
 app.use('/api/docs', docsRouter);
 app.use('/api/experiments', experimentsRouter);
 app.use('/api/runs', runsRouter);
+app.use('/api/comparisons', comparisonsRouter);
+app.use('/api/matrices', matricesRouter);
+app.use('/api/runtimes', runtimesRouter);
+app.use('/api/v8-flags', v8FlagsRouter);
+app.use('/api/verify', verifyRouter);
+app.use('/api/search', searchRouter);
+app.use('/api/glossary', glossaryRouter);
 
 // Error handler
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -39,8 +56,14 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   });
 });
 
+// Pick up runs that were queued or executing when the server last stopped
+const recovered = await runService.recover();
+if (recovered.requeued > 0 || recovered.interrupted > 0) {
+  console.log(`Recovered run queue: ${recovered.requeued} re-queued, ${recovered.interrupted} marked interrupted`);
+}
+
 // Start server
-app.listen(CONFIG.port, () => {
+const server = app.listen(CONFIG.port, () => {
   console.log(`
 ╔══════════════════════════════════════════════════════════════════╗
 ║         V8 Optimization Lab - API Server                         ║
@@ -48,6 +71,7 @@ app.listen(CONFIG.port, () => {
 
   🚀 Server running on http://localhost:${CONFIG.port}
   📚 Docs: http://localhost:${CONFIG.port}/api/docs
+  🔌 Live updates: ws://localhost:${CONFIG.port}/api/ws
   🧪 Experiments: http://localhost:${CONFIG.port}/api/experiments
   ❤️  Health: http://localhost:${CONFIG.port}/health
 
@@ -56,3 +80,12 @@ app.listen(CONFIG.port, () => {
   V8: ${process.versions.v8}
 `);
 });
+
+// Live run output and queue status over WebSocket
+attachRunSocket(server);
+
+// Reload docs and experiments as they are edited; open pages are told
+// over the socket's content channel
+if (CONFIG.watchContent) {
+  await contentWatchService.start();
+}
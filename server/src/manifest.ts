@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { expectationsSchema } from './expectations.js';
+import { ExperimentManifest, ManifestIssue } from './types.js';
+
+/**
+ * The manifest of an experiment is the YAML frontmatter of its README:
+ *
+ *   ---
+ *   title: Hidden Classes
+ *   description: How property order decides which objects share a shape
+ *   tags: [shapes, optimization]
+ *   difficulty: beginner            # beginner | intermediate | advanced
+ *   concepts: [hidden classes, inline caches]
+ *   prerequisites: [02-inline-caches]                  # experiment slugs
+ *   relatedDocs: [01-v8-optimization-mental-model]     # docs/<slug>.md
+ *   outcomes:
+ *     - deopt is slower than fixed because ...
+ *   expectations: [...]             # see expectations.ts
+ *   ---
+ *
+ * Only title, description, tags and difficulty are required. Unknown keys
+ * are reported, so a misspelled key does not go unnoticed.
+ */
+
+const slugSchema = z.string().regex(/^[\w-]+$/, 'Must be a slug like 01-hidden-classes');
+
+export const manifestSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+  description: z.string().trim().min(1).max(300),
+  tags: z.array(z.string().min(1).max(30).regex(/^[\w.-]+$/, 'Tags are single words')).min(1).max(10),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  concepts: z.array(z.string().trim().min(1).max(80)).max(20).default([]),
+  prerequisites: z.array(slugSchema).max(10).default([]),
+  relatedDocs: z.array(slugSchema).max(10).default([]),
+  outcomes: z.array(z.string().trim().min(1).max(300)).max(10).default([]),
+  expectations: expectationsSchema.default([]),
+}).strict();
+
+function toIssues(error: z.ZodError): ManifestIssue[] {
+  return error.errors.map(issue => ({
+    path: issue.path.join('.') || '(frontmatter)',
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validate frontmatter. An invalid manifest still yields every field that
+ * is valid on its own, so one mistake does not hide the whole experiment.
+ */
+export function readManifest(data: Record<string, unknown>): {
+  manifest: Partial<ExperimentManifest>;
+  issues: ManifestIssue[];
+} {
+  const result = manifestSchema.safeParse(data);
+  if (result.success) {
+    return { manifest: result.data, issues: [] };
+  }
+
+  const manifest: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries(manifestSchema.shape)) {
+    const field = (schema as z.ZodTypeAny).safeParse(data[key]);
+    if (field.success && field.data !== undefined) {
+      manifest[key] = field.data;
+    }
+  }
+
+  return { manifest: manifest as Partial<ExperimentManifest>, issues: toIssues(result.error) };
+}
@@ -0,0 +1,243 @@
+import { appendFile, mkdir, readFile, readdir, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../config.js';
+import { RunMetadata, RunPage, RunQuery, RunStatus } from '../types.js';
+
+/**
+ * Storage for run metadata.
+ */
+export interface RunRepository {
+  get(id: string): Promise<RunMetadata | null>;
+  save(metadata: RunMetadata): Promise<void>;
+  query(query: RunQuery): Promise<RunPage>;
+  // Oldest first, so queued runs come back in submission order
+  findByStatus(status: RunStatus): Promise<RunMetadata[]>;
+  // Ids of queued runs in execution order
+  loadQueue(): Promise<string[]>;
+  saveQueue(ids: string[]): Promise<void>;
+}
+
+const LOG_FILE = 'runs.jsonl';
+const QUEUE_FILE = 'queue.json';
+// Rewrite the log once it holds this many entries per live run
+const COMPACT_RATIO = 4;
+const COMPACT_MIN_ENTRIES = 200;
+
+type CursorKey = [queued: string, id: string];
+
+export function encodeCursor(run: RunMetadata): string {
+  const key: CursorKey = [run.timestamps.queued, run.id];
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Array.isArray(key) && key.length === 2 && key.every(part => typeof part === 'string')) {
+      return key as CursorKey;
+    }
+  } catch (error) {
+    // Fall through
+  }
+  return null;
+}
+
+// Newest first; the id breaks ties so the order (and the cursor) is stable
+function compareRuns(a: RunMetadata, b: RunMetadata): number {
+  return b.timestamps.queued.localeCompare(a.timestamps.queued) || b.id.localeCompare(a.id);
+}
+
+// Runs saved before artifacts.trace existed kept the trace log in stderr
+function upgradeRun(run: RunMetadata): RunMetadata {
+  const { artifacts } = run;
+  if (artifacts?.stderr?.endsWith('trace.log') && !artifacts.trace) {
+    artifacts.trace = artifacts.stderr;
+    delete artifacts.stderr;
+  }
+  return run;
+}
+
+/**
+ * Append-only JSON lines log with an in-memory index.
+ *
+ * Every save appends the full metadata snapshot of one run; on load the
+ * last snapshot per id wins. The log is compacted (rewritten with one line
+ * per run) when superseded snapshots pile up. Runs stored as individual
+ * <id>.json files by earlier versions are imported on first load.
+ */
+export class IndexedFileRunRepository implements RunRepository {
+  private runs: Map<string, RunMetadata> | null = null;
+  private loading: Promise<Map<string, RunMetadata>> | null = null;
+  private sorted: RunMetadata[] | null = null;
+  private logEntries = 0;
+  // Appends and compactions must not interleave
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private dir: string) {}
+
+  private get logPath() {
+    return join(this.dir, LOG_FILE);
+  }
+
+  async get(id: string): Promise<RunMetadata | null> {
+    const runs = await this.load();
+    const run = runs.get(id);
+    return run ? structuredClone(run) : null;
+  }
+
+  async save(metadata: RunMetadata): Promise<void> {
+    const runs = await this.load();
+    // Callers keep mutating their metadata object, so store a snapshot
+    const snapshot = structuredClone(metadata);
+    runs.set(snapshot.id, snapshot);
+    this.sorted = null;
+
+    await this.write(async () => {
+      await appendFile(this.logPath, JSON.stringify(snapshot) + '\n', 'utf-8');
+      this.logEntries++;
+
+      if (this.logEntries > Math.max(COMPACT_MIN_ENTRIES, runs.size * COMPACT_RATIO)) {
+        await this.compact(runs);
+      }
+    });
+  }
+
+  async query(query: RunQuery): Promise<RunPage> {
+    const runs = await this.load();
+    if (!this.sorted) {
+      this.sorted = [...runs.values()].sort(compareRuns);
+    }
+
+    const since = query.since?.toISOString();
+    const matching = this.sorted.filter(run =>
+      (!query.experiment || run.experiment === query.experiment) &&
+      (!query.variant || run.variant === query.variant) &&
+      (!query.status || run.status === query.status) &&
+      (!since || run.timestamps.queued >= since)
+    );
+
+    let start = 0;
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (cursor) {
+      const [queued, id] = cursor;
+      start = matching.findIndex(run =>
+        run.timestamps.queued < queued || (run.timestamps.queued === queued && run.id < id)
+      );
+      if (start === -1) start = matching.length;
+    }
+
+    const page = matching.slice(start, start + query.limit);
+    const hasMore = start + query.limit < matching.length;
+
+    return {
+      runs: page.map(run => structuredClone(run)),
+      total: matching.length,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  async findByStatus(status: RunStatus): Promise<RunMetadata[]> {
+    const runs = await this.load();
+    return [...runs.values()]
+      .filter(run => run.status === status)
+      .sort((a, b) => compareRuns(b, a))
+      .map(run => structuredClone(run));
+  }
+
+  async loadQueue(): Promise<string[]> {
+    try {
+      const ids = JSON.parse(await readFile(join(this.dir, QUEUE_FILE), 'utf-8'));
+      return Array.isArray(ids) ? ids.filter(id => typeof id === 'string') : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async saveQueue(ids: string[]): Promise<void> {
+    await this.write(async () => {
+      await mkdir(this.dir, { recursive: true });
+      await this.replaceFile(join(this.dir, QUEUE_FILE), JSON.stringify(ids));
+    });
+  }
+
+  private load(): Promise<Map<string, RunMetadata>> {
+    if (this.runs) return Promise.resolve(this.runs);
+    if (!this.loading) {
+      this.loading = this.readLog().then(runs => {
+        this.runs = runs;
+        this.loading = null;
+        return runs;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readLog(): Promise<Map<string, RunMetadata>> {
+    await mkdir(this.dir, { recursive: true });
+    const runs = new Map<string, RunMetadata>();
+
+    let content: string;
+    try {
+      content = await readFile(this.logPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+
+      const legacy = await this.readLegacyFiles();
+      await this.write(() => this.compact(legacy));
+      return legacy;
+    }
+
+    const lines = content.split('\n').filter(line => line.trim());
+    for (const line of lines) {
+      try {
+        const run = upgradeRun(JSON.parse(line));
+        runs.set(run.id, run);
+      } catch (error) {
+        // A torn final line after a crash; the previous snapshot still counts
+        console.error(`Skipping malformed line in ${LOG_FILE}`);
+      }
+    }
+    this.logEntries = lines.length;
+
+    return runs;
+  }
+
+  private async readLegacyFiles(): Promise<Map<string, RunMetadata>> {
+    const runs = new Map<string, RunMetadata>();
+    const files = (await readdir(this.dir)).filter(f => f.endsWith('.json') && f !== QUEUE_FILE);
+
+    for (const file of files) {
+      try {
+        const run = upgradeRun(JSON.parse(await readFile(join(this.dir, file), 'utf-8')));
+        runs.set(run.id, run);
+      } catch (error) {
+        console.error(`Error reading run file ${file}:`, error);
+      }
+    }
+
+    return runs;
+  }
+
+  // Rewrite the log with one line per run
+  private async compact(runs: Map<string, RunMetadata>) {
+    const lines = [...runs.values()].map(run => JSON.stringify(run) + '\n').join('');
+    await this.replaceFile(this.logPath, lines);
+    this.logEntries = runs.size;
+  }
+
+  // Atomic write via rename, so a crash never leaves a half-written file
+  private async replaceFile(path: string, content: string) {
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, content, 'utf-8');
+    await rename(tmpPath, path);
+  }
+
+  private write(task: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(task);
+    // Keep the chain alive after a failed write
+    this.writes = result.catch(() => {});
+    return result;
+  }
+}
+
+export const runRepository = new IndexedFileRunRepository(join(CONFIG.artifactsDir, 'runs'));
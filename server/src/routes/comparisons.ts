@@ -0,0 +1,59 @@
+import express from 'express';
+import { comparisonService } from '../services/ComparisonService.js';
+import { runtimeService } from '../services/RuntimeService.js';
+import { comparisonOptionsSchema, idSchema } from '../validation.js';
+
+const router = express.Router();
+
+// POST /api/comparisons - Queue all variants of an experiment as one group
+router.post('/', async (req, res, next) => {
+  try {
+    // Validate input
+    const validation = comparisonOptionsSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+    }
+
+    const { runtime } = validation.data;
+
+    if (runtime && !(await runtimeService.getRuntime(runtime))) {
+      return res.status(400).json({ error: `Unknown Node runtime: ${runtime}` });
+    }
+
+    const comparison = await comparisonService.createComparison(validation.data);
+
+    if (!comparison) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    res.status(201).json({
+      id: comparison.id,
+      runs: comparison.runs,
+      status: 'queued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/comparisons/:id - Get comparison with ratios and verdicts
+router.get('/:id', async (req, res, next) => {
+  try {
+    const id = idSchema.safeParse(req.params.id);
+    const comparison = id.success ? await comparisonService.getComparison(id.data) : null;
+
+    if (!comparison) {
+      return res.status(404).json({ error: 'Comparison not found' });
+    }
+
+    res.json(comparison);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
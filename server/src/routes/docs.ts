@@ -14,11 +14,11 @@ router.get('/', async (req, res, next) => {
   }
 });
 
-// GET /api/docs/:slug - Get single doc
+// GET /api/docs/:slug - Get single doc, with its outline, neighbours and experiments
 router.get('/:slug', async (req, res, next) => {
   try {
     const { slug } = req.params;
-    const doc = await docsService.getDoc(slug);
+    const doc = await docsService.getDocDetails(slug);
 
     if (!doc) {
       return res.status(404).json({ error: 'Document not found' });
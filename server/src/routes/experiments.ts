@@ -1,19 +1,72 @@
 import express from 'express';
 import { ExperimentsService } from '../services/ExperimentsService.js';
+import { runService } from '../services/RunService.js';
+import { diffService } from '../services/DiffService.js';
+import { experimentQuerySchema, newExperimentSchema, sourceQuerySchema, variantSchema } from '../validation.js';
+import { annotateSource } from '../sourceAnnotations.js';
+import { VariantSource } from '../types.js';
 
 const router = express.Router();
 const experimentsService = new ExperimentsService();
 
-// GET /api/experiments - List all experiments
+// GET /api/experiments - List experiments
+// Query: tag, difficulty
 router.get('/', async (req, res, next) => {
   try {
-    const experiments = await experimentsService.listExperiments();
+    const validation = experimentQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+    }
+
+    const experiments = await experimentsService.listExperiments(validation.data);
     res.json(experiments);
   } catch (error) {
     next(error);
   }
 });
 
+// GET /api/experiments/lint - Problems in the README frontmatter of each experiment
+router.get('/lint', async (req, res, next) => {
+  try {
+    const results = await experimentsService.lintExperiments();
+    res.json({
+      valid: results.filter(result => result.issues.length === 0).length,
+      invalid: results.filter(result => result.issues.length > 0).length,
+      experiments: results,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/experiments - Create the next numbered experiment from _template
+router.post('/', async (req, res, next) => {
+  try {
+    const validation = newExperimentSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+    }
+
+    const experiment = await experimentsService.createExperiment(validation.data);
+
+    if (!experiment) {
+      return res.status(409).json({ error: `Experiment already exists: ${validation.data.name}` });
+    }
+
+    res.status(201).json(experiment);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/experiments/:slug - Get single experiment
 router.get('/:slug', async (req, res, next) => {
   try {
@@ -30,4 +83,65 @@ router.get('/:slug', async (req, res, next) => {
   }
 });
 
+// GET /api/experiments/:slug/source/:variant - Source of a variant
+// Query: run - annotate lines with that run's optimizations and deopts
+router.get('/:slug/source/:variant', async (req, res, next) => {
+  try {
+    const { slug } = req.params;
+    const variant = variantSchema.safeParse(req.params.variant);
+    const query = sourceQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: query.error.errors,
+      });
+    }
+
+    const source = variant.success ? await experimentsService.getSource(slug, variant.data) : null;
+    if (!variant.success || source === null) {
+      return res.status(404).json({ error: 'Variant not found' });
+    }
+
+    const result: VariantSource = { experiment: slug, variant: variant.data, source, annotations: [] };
+
+    if (query.data.run) {
+      const run = await runService.getRun(query.data.run);
+      if (!run) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+      if (run.experiment !== slug || run.variant !== variant.data) {
+        return res.status(400).json({ error: `Run ${run.id} is a run of ${run.experiment}/${run.variant}` });
+      }
+
+      const events = await runService.getTraceEvents(run.id) ?? [];
+      result.run = { id: run.id, traced: Boolean(run.artifacts.trace) };
+      result.annotations = annotateSource(source, `${slug}/${variant.data}.js`, events);
+    }
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/experiments/:slug/diff/:from/:to - Line diff of two variants,
+// with the latest ns/op and deopt count of each
+router.get('/:slug/diff/:from/:to', async (req, res, next) => {
+  try {
+    const { slug } = req.params;
+    const from = variantSchema.safeParse(req.params.from);
+    const to = variantSchema.safeParse(req.params.to);
+
+    const diff = from.success && to.success ? await diffService.diffVariants(slug, from.data, to.data) : null;
+    if (!diff) {
+      return res.status(404).json({ error: 'Variant not found' });
+    }
+
+    res.json(diff);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
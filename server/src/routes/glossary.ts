@@ -0,0 +1,32 @@
+import express from 'express';
+import { DocsService } from '../services/DocsService.js';
+
+const router = express.Router();
+const docsService = new DocsService();
+
+// GET /api/glossary - All terms of docs/06-glossary.md
+router.get('/', async (req, res, next) => {
+  try {
+    const entries = await docsService.listGlossary();
+    res.json(entries);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/glossary/:term - One term, by id, name or alias (e.g. "IC")
+router.get('/:term', async (req, res, next) => {
+  try {
+    const entry = await docsService.getGlossaryEntry(req.params.term);
+
+    if (!entry) {
+      return res.status(404).json({ error: 'Term not found' });
+    }
+
+    res.json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,62 @@
+import express from 'express';
+import { matrixService } from '../services/MatrixService.js';
+import { runtimeService } from '../services/RuntimeService.js';
+import { idSchema, matrixOptionsSchema } from '../validation.js';
+
+const router = express.Router();
+
+// POST /api/matrices - Queue one variant on several Node runtimes
+router.post('/', async (req, res, next) => {
+  try {
+    // Validate input
+    const validation = matrixOptionsSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+    }
+
+    const available = await runtimeService.listRuntimes();
+    const requested = validation.data.runtimes;
+    const unknown = requested?.filter(id => !available.some(runtime => runtime.id === id)) ?? [];
+
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown Node runtime: ${unknown.join(', ')}` });
+    }
+
+    const runtimes = requested ? available.filter(runtime => requested.includes(runtime.id)) : available;
+    const matrix = await matrixService.createMatrix(validation.data, runtimes);
+
+    if (!matrix) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    res.status(201).json({
+      id: matrix.id,
+      runs: matrix.runs,
+      status: 'queued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/matrices/:id - ns/op of each runtime with its Node and V8 version
+router.get('/:id', async (req, res, next) => {
+  try {
+    const id = idSchema.safeParse(req.params.id);
+    const matrix = id.success ? await matrixService.getMatrix(id.data) : null;
+
+    if (!matrix) {
+      return res.status(404).json({ error: 'Matrix not found' });
+    }
+
+    res.json(matrix);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { runChannelService } from '../services/RunChannelService.js';
+import { socketMessageSchema } from '../validation.js';
+
+// Clients that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * WebSocket /api/ws - follow several runs, the queue and content changes
+ * over one socket
+ *
+ * Client → server:
+ *   { "type": "subscribe", "channel": "run:<id>" | "queue" | "content", "since"?: <seq>, "epoch"?: <epoch> }
+ *   { "type": "unsubscribe", "channel": "..." }
+ *
+ * Server → client:
+ *   { "channel", "seq", "epoch", "type", "data" }   channel message, see RunChannelService
+ *   { "type": "subscribed", "channel", "epoch" }   replay done, live messages follow
+ *   { "type": "rejected", "channel", "error" }
+ *   { "type": "invalid", "error", "details"? }
+ */
+export function attachRunSocket(server: Server) {
+  const wss = new WebSocketServer({ server, path: '/api/ws' });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.get(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.set(socket, false);
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  wss.on('connection', (socket) => {
+    // Channel -> unsubscribe
+    const subscriptions = new Map<string, () => void>();
+
+    alive.set(socket, true);
+    socket.on('pong', () => alive.set(socket, true));
+
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    socket.on('message', async (raw) => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(raw.toString());
+      } catch (error) {
+        return send({ type: 'invalid', error: 'Invalid JSON' });
+      }
+
+      const validation = socketMessageSchema.safeParse(payload);
+      if (!validation.success) {
+        return send({ type: 'invalid', error: 'Invalid message', details: validation.error.errors });
+      }
+
+      const message = validation.data;
+      // Subscribing again (e.g. with a new `since`) replaces the subscription
+      subscriptions.get(message.channel)?.();
+      subscriptions.delete(message.channel);
+      if (message.type === 'unsubscribe') return;
+
+      try {
+        const unsubscribe = await runChannelService.subscribe(message.channel, message.since, send, message.epoch);
+        if (!unsubscribe) {
+          const error = message.channel.startsWith('run:') ? 'Run not found' : 'Unknown channel';
+          return send({ type: 'rejected', channel: message.channel, error });
+        }
+
+        // The socket may have closed, or subscribed again, while the run loaded
+        if (socket.readyState !== WebSocket.OPEN || subscriptions.has(message.channel)) {
+          unsubscribe();
+          return;
+        }
+
+        subscriptions.set(message.channel, unsubscribe);
+        send({ type: 'subscribed', channel: message.channel, epoch: runChannelService.epoch });
+      } catch (error: any) {
+        console.error(`Error subscribing to ${message.channel}:`, error);
+        send({ type: 'rejected', channel: message.channel, error: error.message || 'Internal server error' });
+      }
+    });
+
+    socket.on('close', () => {
+      for (const unsubscribe of subscriptions.values()) {
+        unsubscribe();
+      }
+      subscriptions.clear();
+    });
+  });
+}
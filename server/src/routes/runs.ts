@@ -1,14 +1,28 @@
 import express from 'express';
 import { runService } from '../services/RunService.js';
-import { runOptionsSchema } from '../validation.js';
+import { runtimeService } from '../services/RuntimeService.js';
+import { runChannel, runChannelService } from '../services/RunChannelService.js';
+import { runLogService } from '../services/RunLogService.js';
+import { runLogQuerySchema, runOptionsSchema, runQuerySchema } from '../validation.js';
+import { summarizeTrace } from '../traceParser.js';
 
 const router = express.Router();
 
-// GET /api/runs - List all runs
+// GET /api/runs - List runs, newest first
+// Query: experiment, variant, status, since, limit, cursor
 router.get('/', async (req, res, next) => {
   try {
-    const runs = await runService.listRuns();
-    res.json(runs);
+    const validation = runQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+    }
+
+    const page = await runService.listRuns(validation.data);
+    res.json(page);
   } catch (error) {
     next(error);
   }
@@ -36,6 +50,101 @@ router.get('/:id', async (req, res, next) => {
   }
 });
 
+// GET /api/runs/:id/trace-events - Parsed --trace-opt/--trace-deopt output
+router.get('/:id/trace-events', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const events = await runService.getTraceEvents(id);
+
+    if (!events) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.json({
+      events,
+      summary: summarizeTrace(events),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/runs/:id/profile - CPU profile as a call tree with self/total time
+router.get('/:id/profile', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const profile = await runService.getCpuProfile(id);
+
+    if (!profile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+
+    res.json(profile);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/runs/:id/log - Timestamped stdout/stderr lines
+// Query: stream (stdout|stderr), from, to (line numbers, to exclusive)
+router.get('/:id/log', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const validation = runLogQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+    }
+
+    const run = await runService.getRun(id);
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const log = await runLogService.getLog(id, validation.data);
+    res.json(log);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/runs/:id/artifacts - List files produced by a run
+router.get('/:id/artifacts', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const artifacts = await runService.listArtifacts(id);
+
+    if (!artifacts) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.json(artifacts.map(({ name, size, type }) => ({ name, size, type })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/runs/:id/artifacts/:name - Download a single artifact
+// (wildcard, since multi-sample names look like "sample-2/stdout.log")
+router.get('/:id/artifacts/*', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const name = (req.params as Record<string, string>)['0'];
+    const filePath = await runService.getArtifactPath(id, name);
+
+    if (!filePath) {
+      return res.status(404).json({ error: 'Artifact not found' });
+    }
+
+    res.download(filePath, name.replace(/\//g, '-'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/runs - Create new run
 router.post('/', async (req, res, next) => {
   try {
@@ -50,6 +159,11 @@ router.post('/', async (req, res, next) => {
     }
 
     const options = validation.data;
+
+    if (options.runtime && !(await runtimeService.getRuntime(options.runtime))) {
+      return res.status(400).json({ error: `Unknown Node runtime: ${options.runtime}` });
+    }
+
     const runId = await runService.createRun(options);
 
     res.status(201).json({
@@ -61,7 +175,48 @@ router.post('/', async (req, res, next) => {
   }
 });
 
+// DELETE /api/runs/:id - Cancel a queued or running run
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const run = await runService.cancelRun(id);
+
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    if (run.status !== 'cancelled') {
+      return res.status(409).json({ error: `Run already ${run.status}` });
+    }
+
+    res.json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/runs/:id/retry - Queue a new run with the same options
+router.post('/:id/retry', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const runId = await runService.retryRun(id);
+
+    if (!runId) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.status(201).json({
+      id: runId,
+      status: 'queued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/runs/:id/stream - Server-Sent Events stream
+// Resumes after the Last-Event-ID header ("<epoch>:<seq>"); /api/ws can
+// follow several runs
 router.get('/:id/stream', async (req, res, next) => {
   try {
     const { id } = req.params;
@@ -78,59 +233,28 @@ router.get('/:id/stream', async (req, res, next) => {
     res.setHeader('Connection', 'keep-alive');
     res.flushHeaders();
 
-    // Send initial status
-    res.write(`data: ${JSON.stringify({ type: 'status', data: run.status })}\n\n`);
-
-    // If already completed, send completion and close
-    if (run.status === 'completed' || run.status === 'failed') {
-      res.write(`data: ${JSON.stringify({ type: 'complete', data: run })}\n\n`);
-      res.end();
-      return;
-    }
-
-    // Listen for events
-    const onStdout = (runId: string, chunk: string) => {
-      if (runId === id) {
-        res.write(`data: ${JSON.stringify({ type: 'stdout', data: chunk })}\n\n`);
-      }
-    };
+    const [epoch, seq] = (req.header('Last-Event-ID') || '').split(':');
+    const since = parseInt(seq, 10) || 0;
+    let finished = false;
 
-    const onStderr = (runId: string, chunk: string) => {
-      if (runId === id) {
-        res.write(`data: ${JSON.stringify({ type: 'stderr', data: chunk })}\n\n`);
-      }
-    };
+    const unsubscribe = await runChannelService.subscribe(runChannel(id), since, (message) => {
+      if (finished) return;
+      res.write(`id: ${message.epoch}:${message.seq}\ndata: ${JSON.stringify({ type: message.type, data: message.data })}\n\n`);
 
-    const onComplete = (runId: string, metadata: any) => {
-      if (runId === id) {
-        res.write(`data: ${JSON.stringify({ type: 'complete', data: metadata })}\n\n`);
+      if (message.type === 'complete') {
+        finished = true;
         res.end();
-        cleanup();
-      }
-    };
-
-    const onError = (runId: string, error: string) => {
-      if (runId === id) {
-        res.write(`data: ${JSON.stringify({ type: 'error', data: error })}\n\n`);
       }
-    };
-
-    const cleanup = () => {
-      runService.off('run:stdout', onStdout);
-      runService.off('run:stderr', onStderr);
-      runService.off('run:complete', onComplete);
-      runService.off('run:error', onError);
-    };
+    }, epoch || undefined);
 
-    // Register listeners
-    runService.on('run:stdout', onStdout);
-    runService.on('run:stderr', onStderr);
-    runService.on('run:complete', onComplete);
-    runService.on('run:error', onError);
-
-    // Cleanup on client disconnect
-    req.on('close', cleanup);
+    // Close right away if the replay already ended the stream
+    if (finished) {
+      unsubscribe?.();
+      return;
+    }
 
+    // Cleanup on client disconnect or completion
+    res.on('close', () => unsubscribe?.());
   } catch (error) {
     next(error);
   }
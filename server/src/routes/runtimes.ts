@@ -0,0 +1,16 @@
+import express from 'express';
+import { runtimeService } from '../services/RuntimeService.js';
+
+const router = express.Router();
+
+// GET /api/runtimes - Node runtimes runs can target, oldest first
+router.get('/', async (req, res, next) => {
+  try {
+    const runtimes = await runtimeService.listRuntimes();
+    res.json(runtimes);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
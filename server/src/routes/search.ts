@@ -0,0 +1,26 @@
+import express from 'express';
+import { searchService } from '../services/SearchService.js';
+import { searchQuerySchema } from '../validation.js';
+
+const router = express.Router();
+
+// GET /api/search?q= - Ranked matches in docs, glossary, experiments and variant source
+router.get('/', async (req, res, next) => {
+  try {
+    const validation = searchQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: validation.error.errors,
+      });
+    }
+
+    const result = await searchService.search(validation.data);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { V8_FLAGS, V8_FLAG_PRESETS } from '../v8Flags.js';
+
+const router = express.Router();
+
+// GET /api/v8-flags - Allowed V8 flags and named presets
+router.get('/', (req, res) => {
+  res.json({
+    flags: V8_FLAGS,
+    presets: V8_FLAG_PRESETS,
+  });
+});
+
+export default router;
@@ -0,0 +1,48 @@
+import express from 'express';
+import { verifyService } from '../services/VerifyService.js';
+import { idSchema, verifyOptionsSchema } from '../validation.js';
+
+const router = express.Router();
+
+// POST /api/verify - Check experiment expectations against fresh runs
+router.post('/', async (req, res, next) => {
+  try {
+    const validation = verifyOptionsSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request body',
+        details: validation.error.errors,
+      });
+    }
+
+    const report = await verifyService.startVerification(validation.data.experiments);
+
+    if (!report) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    // Runs execute in the background; poll GET /api/verify/:id
+    res.status(202).json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/verify/:id - Verification report, partial while running
+router.get('/:id', async (req, res, next) => {
+  try {
+    const id = idSchema.safeParse(req.params.id);
+    const report = id.success ? await verifyService.getReport(id.data) : null;
+
+    if (!report) {
+      return res.status(404).json({ error: 'Verification not found' });
+    }
+
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
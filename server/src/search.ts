@@ -0,0 +1,381 @@
+import { SearchHit, SearchKind } from './types.js';
+
+/**
+ * One unit of the search index: a section of a markdown file (from one
+ * heading to the next) or the source of one variant.
+ */
+export interface SearchEntry {
+  kind: SearchKind;
+  slug: string;
+  title: string;
+  heading?: string;
+  anchor?: string;
+  variant?: string;
+  url: string;
+  // Plain text of a section, or source code with its line breaks
+  text: string;
+}
+
+export interface MarkdownSection {
+  // Undefined for the text above the first ## heading
+  heading?: string;
+  anchor?: string;
+  level?: number;
+  text: string;
+}
+
+/**
+ * Inverted index from words to the entries containing them.
+ */
+export interface SearchIndex {
+  entries: SearchEntry[];
+  // Word -> entry -> occurrences
+  postings: Map<string, Map<number, number>>;
+  // All words, sorted, to expand prefixes
+  words: string[];
+  // Words of each entry's heading, or of the title for entries without one
+  headingWords: Set<string>[];
+  lengths: number[];
+  averageLength: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Score of a word that only starts with the query word, relative to an exact match
+const PREFIX_WEIGHT = 0.6;
+// Shorter query words only match exactly
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_EXPANSION = 50;
+// Extra score for a query word in the heading, in units of its idf
+const HEADING_BOOST = 2;
+// Multiplier for entries containing the query as a phrase
+const PHRASE_BOOST = 1.5;
+
+const SNIPPET_LENGTH = 200;
+// Characters shown before the first match of a snippet
+const SNIPPET_CONTEXT = 40;
+
+const WORD_RE = /[a-z0-9]+/g;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in',
+  'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'with',
+]);
+
+// GitHub-style heading id, the same as the web UI gives rendered headings
+export function anchorFor(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s/g, '-');
+}
+
+// Heading text as rendered, without inline markdown
+export function headingText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`/g, '')
+    .replace(/\*\*|__/g, '')
+    .trim();
+}
+
+/**
+ * Markdown without its syntax, on one line, for indexing and snippets.
+ * Code blocks keep their content.
+ */
+export function plainText(markdown: string): string {
+  return markdown
+    .split('\n')
+    .filter(line => !/^\s*(```|~~~)/.test(line) && !/^\s*\|?\s*:?-{3,}/.test(line))
+    .join('\n')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/`|\*\*|__/g, '')
+    .replace(/\|/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split markdown at its ## and ### headings, the ones the web UI gives
+ * ids. Headings inside code blocks are not headings.
+ */
+export function splitSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { text: '' };
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = plainText(lines.join('\n'));
+    if (text || current.heading) {
+      sections.push({ ...current, text });
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : line.match(/^(#{1,3})\s+(.+?)\s*#*\s*$/);
+    if (heading && heading[1].length > 1) {
+      flush();
+      const text = headingText(heading[2]);
+      current = { heading: text, anchor: anchorFor(text), level: heading[1].length, text: '' };
+      lines = [];
+    } else if (!heading) {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(WORD_RE) ?? [];
+}
+
+// Words of a query; stop words only count if there is nothing else
+export function queryWords(query: string): string[] {
+  const words = [...new Set(wordsOf(query))];
+  const meaningful = words.filter(word => !STOP_WORDS.has(word));
+  return meaningful.length > 0 ? meaningful : words;
+}
+
+export function buildIndex(entries: SearchEntry[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+  const headingWords: Set<string>[] = [];
+
+  entries.forEach((entry, i) => {
+    const heading = entry.heading ?? entry.title;
+    const words = wordsOf(`${entry.heading ?? ''} ${entry.text}`);
+    lengths.push(words.length);
+    headingWords.push(new Set(wordsOf(heading)));
+
+    for (const word of words) {
+      let entryCounts = postings.get(word);
+      if (!entryCounts) {
+        entryCounts = new Map();
+        postings.set(word, entryCounts);
+      }
+      entryCounts.set(i, (entryCounts.get(i) ?? 0) + 1);
+    }
+  });
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    entries,
+    postings,
+    words: [...postings.keys()].sort(),
+    headingWords,
+    lengths,
+    averageLength: entries.length > 0 ? total / entries.length : 0,
+  };
+}
+
+// Index words matching a query word: itself, and longer words it starts
+function expand(index: SearchIndex, queryWord: string): { word: string; weight: number }[] {
+  const matches: { word: string; weight: number }[] = [];
+  if (index.postings.has(queryWord)) {
+    matches.push({ word: queryWord, weight: 1 });
+  }
+  if (queryWord.length < MIN_PREFIX_LENGTH) return matches;
+
+  // Binary search for the first word >= queryWord
+  let low = 0;
+  let high = index.words.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.words[mid] < queryWord) low = mid + 1;
+    else high = mid;
+  }
+
+  for (let i = low; i < index.words.length && matches.length < MAX_PREFIX_EXPANSION; i++) {
+    const word = index.words[i];
+    if (!word.startsWith(queryWord)) break;
+    if (word !== queryWord) matches.push({ word, weight: PREFIX_WEIGHT });
+  }
+
+  return matches;
+}
+
+function idf(index: SearchIndex, word: string): number {
+  const df = index.postings.get(word)?.size ?? 0;
+  const n = index.entries.length;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+function normalized(text: string): string {
+  return wordsOf(text).join(' ');
+}
+
+/**
+ * Entries containing every word of the query (words of three letters or
+ * more also match longer words they start), ranked by BM25 with a boost
+ * for matches in the heading and for the whole query as a phrase.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: { kind?: SearchKind; limit: number }
+): { total: number; hits: SearchHit[] } {
+  const words = queryWords(query);
+  if (words.length === 0) return { total: 0, hits: [] };
+
+  // Entry -> score so far, and the index words that matched
+  let candidates: Map<number, { score: number; matched: Set<string> }> | null = null;
+
+  for (const queryWord of words) {
+    const expansions = expand(index, queryWord);
+    const scores = new Map<number, { score: number; matched: Set<string> }>();
+
+    for (const { word, weight } of expansions) {
+      const wordIdf = idf(index, word);
+      for (const [entry, count] of index.postings.get(word)!) {
+        if (candidates && !candidates.has(entry)) continue;
+        if (options.kind && index.entries[entry].kind !== options.kind) continue;
+
+        const length = index.lengths[entry];
+        const tf = (count * (K1 + 1)) / (count + K1 * (1 - B + (B * length) / (index.averageLength || 1)));
+        let score = weight * wordIdf * tf;
+        if (index.headingWords[entry].has(word)) {
+          score += weight * wordIdf * HEADING_BOOST;
+        }
+
+        const current = scores.get(entry);
+        if (!current) {
+          scores.set(entry, { score, matched: new Set([word]) });
+        } else {
+          // The best expansion counts, all of them are highlighted
+          current.score = Math.max(current.score, score);
+          current.matched.add(word);
+        }
+      }
+    }
+
+    const previous: Map<number, { score: number; matched: Set<string> }> | null = candidates;
+    candidates = new Map();
+    for (const [entry, { score, matched }] of scores) {
+      const before = previous?.get(entry);
+      candidates.set(entry, {
+        score: (before?.score ?? 0) + score,
+        matched: new Set([...(before?.matched ?? []), ...matched]),
+      });
+    }
+  }
+
+  const phrase = words.length > 1 ? normalized(query) : null;
+  const ranked = [...candidates!.entries()]
+    .map(([i, { score, matched }]) => {
+      const entry = index.entries[i];
+      const hasPhrase = phrase !== null && normalized(`${entry.heading ?? ''} ${entry.text}`).includes(phrase);
+      return { i, entry, matched, score: hasPhrase ? score * PHRASE_BOOST : score };
+    })
+    .sort((a, b) => b.score - a.score || a.i - b.i);
+
+  return {
+    total: ranked.length,
+    hits: ranked.slice(0, options.limit).map(({ entry, matched, score }) => toHit(entry, matched, score)),
+  };
+}
+
+// Start and end of each matched word in a text
+function occurrences(text: string, matched: Set<string>): { start: number; end: number; word: string }[] {
+  const found: { start: number; end: number; word: string }[] = [];
+  const lower = text.toLowerCase();
+  for (const match of lower.matchAll(WORD_RE)) {
+    if (matched.has(match[0])) {
+      found.push({ start: match.index!, end: match.index! + match[0].length, word: match[0] });
+    }
+  }
+  return found;
+}
+
+// The part of a text with the most different matched words
+function snippetOf(text: string, matched: Set<string>): { snippet: string; highlights: [number, number][] } {
+  const found = occurrences(text, matched);
+
+  let from = 0;
+  let best = 0;
+  for (const occurrence of found) {
+    const distinct = new Set(
+      found
+        .filter(o => o.start >= occurrence.start && o.end <= occurrence.start + SNIPPET_LENGTH - SNIPPET_CONTEXT)
+        .map(o => o.word)
+    ).size;
+    if (distinct > best) {
+      best = distinct;
+      from = occurrence.start;
+    }
+  }
+
+  let start = Math.max(0, from - SNIPPET_CONTEXT);
+  if (start > 0) {
+    // Do not cut a word
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space > from ? from : space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: found
+      .filter(o => o.start >= start && o.end <= end)
+      .map(o => [o.start - start + prefix.length, o.end - start + prefix.length] as [number, number]),
+  };
+}
+
+function toHit(entry: SearchEntry, matched: Set<string>, score: number): SearchHit {
+  const hit: SearchHit = {
+    kind: entry.kind,
+    slug: entry.slug,
+    title: entry.title,
+    heading: entry.heading,
+    anchor: entry.anchor,
+    variant: entry.variant,
+    url: entry.url,
+    score: Math.round(score * 100) / 100,
+    snippet: '',
+    highlights: [],
+  };
+
+  if (entry.kind !== 'source') {
+    return { ...hit, ...snippetOf(entry.text, matched) };
+  }
+
+  // For code, the line with the most different matched words
+  const lines = entry.text.split('\n');
+  let line = 0;
+  let best = 0;
+  lines.forEach((text, i) => {
+    const distinct = new Set(occurrences(text, matched).map(o => o.word)).size;
+    if (distinct > best) {
+      best = distinct;
+      line = i;
+    }
+  });
+
+  const { snippet, highlights } = snippetOf((lines[line] ?? '').trim(), matched);
+
+  return {
+    ...hit,
+    line: line + 1,
+    url: `${entry.url}#L${line + 1}`,
+    snippet,
+    highlights,
+  };
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../config.js';
+import {
+  ComparisonMetadata,
+  ComparisonResult,
+  RunMetadata,
+  RunOptions,
+  SignificanceVerdict,
+  SpeedupRatio,
+  VariantComparison,
+} from '../types.js';
+import { ValidatedComparisonOptions } from '../validation.js';
+import { ExperimentsService } from './ExperimentsService.js';
+import { RunService, groupStatus, runService } from './RunService.js';
+
+// [numerator, denominator] pairs reported for every comparison
+const RATIO_PAIRS: [string, string][] = [
+  ['deopt', 'baseline'],
+  ['fixed', 'deopt'],
+];
+
+export class ComparisonService {
+  private experimentsService = new ExperimentsService();
+
+  constructor(private runs: RunService) {}
+
+  /**
+   * Queue every available variant of an experiment with identical options.
+   * Returns null if the experiment does not exist.
+   */
+  async createComparison(options: ValidatedComparisonOptions): Promise<ComparisonMetadata | null> {
+    const experiment = await this.experimentsService.getExperiment(options.exp);
+    if (!experiment || experiment.metadata.variants.length === 0) return null;
+
+    const id = randomUUID();
+    const variants = experiment.metadata.variants as RunOptions['variant'][];
+    const runIds = await this.runs.createRunGroup(
+      // Ratios compare ns/op, so every variant gets an exclusive slot
+      variants.map(variant => ({ ...options, variant, timingSensitive: true })),
+      { comparisonId: id }
+    );
+
+    const metadata: ComparisonMetadata = {
+      id,
+      experiment: options.exp,
+      options: {
+        trace: options.trace,
+        profile: options.profile,
+        warmup: options.warmup,
+        repeat: options.repeat,
+        samples: options.samples,
+        v8Flags: options.v8Flags,
+        ...(options.runtime && { runtime: options.runtime }),
+      },
+      runs: Object.fromEntries(variants.map((variant, i) => [variant, runIds[i]])),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.saveMetadata(metadata);
+    return metadata;
+  }
+
+  async getComparison(id: string): Promise<ComparisonResult | null> {
+    const metadata = await this.loadMetadata(id);
+    if (!metadata) return null;
+
+    const runs = new Map<string, RunMetadata>();
+    for (const [variant, runId] of Object.entries(metadata.runs)) {
+      const run = await this.runs.getRun(runId);
+      if (run) runs.set(variant, run);
+    }
+
+    const variants: VariantComparison[] = Object.entries(metadata.runs).map(([variant, runId]) => {
+      const run = runs.get(variant);
+      return {
+        variant,
+        runId,
+        status: run?.status ?? 'failed',
+        nsPerOp: run?.results?.nsPerOp,
+        ci: run?.results?.statistics?.ci,
+        deoptCount: run?.results?.deoptCount ?? null,
+      };
+    });
+
+    const ratios = RATIO_PAIRS
+      .filter(([num, den]) => runs.has(num) && runs.has(den))
+      .map(([num, den]) => this.buildRatio(runs.get(num)!, runs.get(den)!));
+
+    return {
+      ...metadata,
+      status: groupStatus(variants.map(v => v.status)),
+      variants,
+      ratios,
+    };
+  }
+
+  private buildRatio(numerator: RunMetadata, denominator: RunMetadata): SpeedupRatio {
+    const num = numerator.results?.nsPerOp;
+    const den = denominator.results?.nsPerOp;
+
+    return {
+      label: `${numerator.variant}/${denominator.variant}`,
+      numerator: numerator.variant,
+      denominator: denominator.variant,
+      ratio: num !== undefined && den !== undefined && den > 0 ? num / den : null,
+      verdict: this.significance(numerator, denominator),
+    };
+  }
+
+  /**
+   * Two variants differ significantly when the bootstrap confidence
+   * intervals of their mean ns/op do not overlap. Single-sample runs have
+   * no interval, so no verdict can be given.
+   */
+  private significance(a: RunMetadata, b: RunMetadata): SignificanceVerdict {
+    const ciA = a.results?.statistics?.ci;
+    const ciB = b.results?.statistics?.ci;
+    if (!ciA || !ciB) return 'insufficient-data';
+
+    const overlap = ciA.lower <= ciB.upper && ciB.lower <= ciA.upper;
+    return overlap ? 'not-significant' : 'significant';
+  }
+
+  private async loadMetadata(id: string): Promise<ComparisonMetadata | null> {
+    const filePath = join(CONFIG.artifactsDir, 'comparisons', `${id}.json`);
+
+    try {
+      const content = await readFile(filePath, 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async saveMetadata(metadata: ComparisonMetadata) {
+    const comparisonsDir = join(CONFIG.artifactsDir, 'comparisons');
+    await mkdir(comparisonsDir, { recursive: true });
+
+    const filePath = join(comparisonsDir, `${metadata.id}.json`);
+    await writeFile(filePath, JSON.stringify(metadata, null, 2), 'utf-8');
+  }
+}
+
+// Singleton instance
+export const comparisonService = new ComparisonService(runService);
@@ -0,0 +1,162 @@
+import { EventEmitter } from 'events';
+import { FSWatcher, watch } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { CONFIG } from '../config.js';
+import { ContentChange } from '../types.js';
+import { DocsService } from './DocsService.js';
+import { ExperimentsService } from './ExperimentsService.js';
+
+// Editors save in several steps; changes this close together are handled once
+const DEBOUNCE_MS = 200;
+
+// Files of an experiment that make up its content
+function isExperimentFile(file: string): boolean {
+  return file === 'README.md' || file.endsWith('.js');
+}
+
+/**
+ * Watches docs/ and experiments/. After a burst of changes it drops the
+ * cached metadata of what changed, parses it again, and emits
+ * 'content:changed' with a ContentChange.
+ *
+ * Every folder has its own non-recursive watcher, since fs.watch is not
+ * recursive on Linux before Node 20. Experiment folders that appear or
+ * disappear get a watcher added or closed. Watchers are keyed by resolved
+ * path.
+ */
+export class ContentWatchService extends EventEmitter {
+  private docsService = new DocsService();
+  private experimentsService = new ExperimentsService();
+  private docsDir = resolve(CONFIG.docsDir);
+  private experimentsDir = resolve(CONFIG.experimentsDir);
+  private watchers = new Map<string, FSWatcher>();
+  private pending: { docs: Set<string>; experiments: Set<string>; all: boolean } = {
+    docs: new Set(),
+    experiments: new Set(),
+    all: false,
+  };
+  private timer: NodeJS.Timeout | null = null;
+
+  async start() {
+    this.watchDir(this.docsDir, (file) => {
+      if (file === null) {
+        this.pending.all = true;
+      } else if (file.endsWith('.md')) {
+        this.pending.docs.add(file.replace(/\.md$/, ''));
+      } else {
+        return;
+      }
+      this.schedule();
+    });
+
+    // Experiment folders added, removed or renamed; flush() drops names
+    // that turn out to be plain files
+    this.watchDir(this.experimentsDir, (name) => {
+      if (name === null) {
+        this.pending.all = true;
+      } else if (!name.startsWith('_') && !name.startsWith('.')) {
+        this.pending.experiments.add(name);
+      } else {
+        return;
+      }
+      this.schedule();
+    });
+
+    await this.syncExperimentWatchers();
+  }
+
+  stop() {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // file is null when the platform does not say which file changed
+  private watchDir(dir: string, onChange: (file: string | null) => void) {
+    if (this.watchers.has(dir)) return;
+
+    try {
+      const watcher = watch(dir, (event, file) => onChange(file ? file.toString() : null));
+      // E.g. the folder was deleted
+      watcher.on('error', () => {
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+    } catch (error: any) {
+      console.error(`Cannot watch ${dir}: ${error.message}`);
+    }
+  }
+
+  private async syncExperimentWatchers() {
+    const dirs = await readdir(this.experimentsDir, { withFileTypes: true }).catch(() => []);
+    const slugs = new Set(dirs.filter(d => d.isDirectory() && !d.name.startsWith('_')).map(d => d.name));
+
+    for (const slug of slugs) {
+      this.watchDir(join(this.experimentsDir, slug), (file) => {
+        if (file !== null && !isExperimentFile(file)) return;
+        this.pending.experiments.add(slug);
+        this.schedule();
+      });
+    }
+
+    for (const [dir, watcher] of this.watchers) {
+      if (dirname(dir) === this.experimentsDir && !slugs.has(basename(dir))) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+  }
+
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => console.error('Error reloading content:', error));
+    }, DEBOUNCE_MS);
+  }
+
+  private async flush() {
+    const { all, docs, experiments } = this.pending;
+    this.pending = { docs: new Set(), experiments: new Set(), all: false };
+
+    const change: ContentChange = {
+      docs: [...docs].sort(),
+      experiments: await this.experimentNames([...experiments]),
+    };
+
+    await this.syncExperimentWatchers();
+    if (!all && change.docs.length === 0 && change.experiments.length === 0) return;
+
+    if (all) {
+      this.docsService.invalidateCache();
+      this.experimentsService.invalidateCache();
+    }
+    change.docs.forEach(slug => this.docsService.invalidateCache(slug));
+    change.experiments.forEach(slug => this.experimentsService.invalidateCache(slug));
+
+    // Parse again now, not on the next request
+    await Promise.all([this.docsService.listDocs(), this.experimentsService.listExperiments()]);
+
+    this.emit('content:changed', change);
+  }
+
+  // Changed names in the experiments folder that are experiments: folders,
+  // and watched folders that are gone
+  private async experimentNames(names: string[]): Promise<string[]> {
+    const isExperiment = await Promise.all(names.map(async name => {
+      const dir = join(this.experimentsDir, name);
+      if (this.watchers.has(dir)) return true;
+      const info = await stat(dir).catch(() => null);
+      return info?.isDirectory() ?? false;
+    }));
+    return names.filter((_, i) => isExperiment[i]).sort();
+  }
+}
+
+// Singleton instance
+export const contentWatchService = new ContentWatchService();
@@ -0,0 +1,86 @@
+import { diffLines } from '../diff.js';
+import { VariantDiff, VariantHistory } from '../types.js';
+import { ExperimentsService } from './ExperimentsService.js';
+import { isInstrumented, RunService, runService } from './RunService.js';
+
+// Completed runs read per page while looking for the latest results, and
+// the most pages read before a variant is reported without them
+const HISTORY_PAGE_SIZE = 100;
+const MAX_HISTORY_PAGES = 5;
+
+export class DiffService {
+  private experimentsService = new ExperimentsService();
+
+  constructor(private runs: RunService) {}
+
+  /**
+   * Line diff between two variants of an experiment, with the latest
+   * results of each. Returns null if either variant does not exist.
+   */
+  async diffVariants(slug: string, from: string, to: string): Promise<VariantDiff | null> {
+    const [before, after] = await Promise.all([
+      this.experimentsService.getSource(slug, from),
+      this.experimentsService.getSource(slug, to),
+    ]);
+    if (before === null || after === null) return null;
+
+    const rows = diffLines(before, after);
+    const [fromHistory, toHistory] = await Promise.all([
+      this.latestResults(slug, from),
+      this.latestResults(slug, to),
+    ]);
+
+    return {
+      experiment: slug,
+      from: fromHistory,
+      to: toHistory,
+      rows,
+      stats: {
+        added: rows.filter(row => row.type === 'added').length,
+        removed: rows.filter(row => row.type === 'removed').length,
+        changed: rows.filter(row => row.type === 'changed').length,
+      },
+    };
+  }
+
+  // Newest plain (not traced or profiled) completed run with a measurement,
+  // and newest with a deopt count, among the last MAX_HISTORY_PAGES pages
+  private async latestResults(experiment: string, variant: string): Promise<VariantHistory> {
+    const history: VariantHistory = { variant };
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await this.runs.listRuns({
+        experiment,
+        variant,
+        status: 'completed',
+        limit: HISTORY_PAGE_SIZE,
+        cursor,
+      });
+
+      for (const run of page.runs) {
+        if (history.nsPerOp === undefined && run.results?.nsPerOp !== undefined && !isInstrumented(run.options)) {
+          history.nsPerOp = run.results.nsPerOp;
+          history.nsPerOpRunId = run.id;
+        }
+        if (history.deoptCount === undefined && run.results?.deoptCount !== undefined) {
+          history.deoptCount = run.results.deoptCount;
+          history.deoptRunId = run.id;
+        }
+      }
+
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (
+      cursor &&
+      pages < MAX_HISTORY_PAGES &&
+      (history.nsPerOp === undefined || history.deoptCount === undefined)
+    );
+
+    return history;
+  }
+}
+
+// Singleton instance
+export const diffService = new DiffService(runService);
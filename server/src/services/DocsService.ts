@@ -2,10 +2,31 @@ import { readdir, readFile } from 'fs/promises';
 import { join } from 'path';
 import matter from 'gray-matter';
 import { CONFIG } from '../config.js';
-import { DocMetadata } from '../types.js';
+import { DocDetails, DocExperiment, DocHeading, DocMetadata, GlossaryEntry } from '../types.js';
+import { findGlossaryEntry, parseGlossary } from '../glossary.js';
+import { plainText, splitSections } from '../search.js';
+import { ExperimentsService } from './ExperimentsService.js';
+
+// The doc whose ### headings are glossary terms
+export const GLOSSARY_SLUG = '06-glossary';
+
+// Reading speed for technical text with code
+const WORDS_PER_MINUTE = 200;
+
+// Shared by every instance, like the experiments cache
+const cache: Map<string, DocMetadata> = new Map();
 
 export class DocsService {
-  private cache: Map<string, DocMetadata> = new Map();
+  private experimentsService = new ExperimentsService();
+
+  // Drop parsed metadata, of one doc or all of them
+  invalidateCache(slug?: string) {
+    if (slug) {
+      cache.delete(slug);
+    } else {
+      cache.clear();
+    }
+  }
 
   async listDocs(): Promise<DocMetadata[]> {
     const files = await readdir(CONFIG.docsDir);
@@ -15,7 +36,7 @@ export class DocsService {
 
     for (const file of mdFiles) {
       const slug = file.replace('.md', '');
-      let doc = this.cache.get(slug);
+      let doc = cache.get(slug);
 
       if (!doc) {
         const content = await readFile(join(CONFIG.docsDir, file), 'utf-8');
@@ -27,7 +48,7 @@ export class DocsService {
           path: file,
           description: data.description || excerpt || undefined,
         };
-        this.cache.set(slug, doc);
+        cache.set(slug, doc);
       }
 
       docs.push(doc);
@@ -56,6 +77,94 @@ export class DocsService {
     }
   }
 
+  /**
+   * A doc with what the page around it needs: its heading tree, a
+   * reading time, the previous and next doc, and the experiments that
+   * refer to it.
+   */
+  async getDocDetails(slug: string): Promise<DocDetails | null> {
+    // Ends up in a path
+    if (!/^[\w-]+$/.test(slug)) return null;
+
+    const doc = await this.getDoc(slug);
+    if (!doc) return null;
+
+    const docs = (await this.listDocs()).sort((a, b) =>
+      this.order(a.slug) - this.order(b.slug) || a.slug.localeCompare(b.slug)
+    );
+    const index = docs.findIndex(d => d.slug === slug);
+    const words = plainText(doc.content).split(' ').filter(Boolean).length;
+
+    return {
+      ...doc,
+      toc: this.headingTree(doc.content),
+      readingMinutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)),
+      prev: index > 0 ? docs[index - 1] : null,
+      next: index !== -1 && index < docs.length - 1 ? docs[index + 1] : null,
+      experiments: await this.referencingExperiments(slug),
+    };
+  }
+
+  // ### headings nest under the ## heading above them
+  private headingTree(content: string): DocHeading[] {
+    const toc: DocHeading[] = [];
+    for (const section of splitSections(content)) {
+      if (!section.heading || !section.anchor) continue;
+
+      const heading: DocHeading = { depth: section.level!, text: section.heading, anchor: section.anchor, children: [] };
+      const parent = toc[toc.length - 1];
+      if (heading.depth === 3 && parent) {
+        parent.children.push(heading);
+      } else {
+        toc.push(heading);
+      }
+    }
+    return toc;
+  }
+
+  // Position in the reading order: the number the file name starts with
+  private order(slug: string): number {
+    const number = parseInt(slug, 10);
+    return Number.isNaN(number) ? Infinity : number;
+  }
+
+  // Experiments listing the doc in their manifest or linking it from their README
+  private async referencingExperiments(slug: string): Promise<DocExperiment[]> {
+    const link = new RegExp(`(^|[^\\w-])docs/${slug}(\\.md)?(?![\\w-])`);
+    const experiments: DocExperiment[] = [];
+
+    for (const { slug: experimentSlug } of await this.experimentsService.listExperiments()) {
+      const experiment = await this.experimentsService.getExperiment(experimentSlug);
+      if (!experiment) continue;
+
+      const { metadata, readme } = experiment;
+      const via: DocExperiment['via'] = [];
+      if (metadata.relatedDocs.includes(slug)) via.push('manifest');
+      if (link.test(readme)) via.push('readme');
+      if (via.length === 0) continue;
+
+      experiments.push({
+        slug: metadata.slug,
+        name: metadata.name,
+        description: metadata.description,
+        difficulty: metadata.difficulty,
+        via,
+      });
+    }
+
+    return experiments;
+  }
+
+  // Terms of the glossary doc, or an empty list if there is none
+  async listGlossary(): Promise<GlossaryEntry[]> {
+    const doc = await this.getDoc(GLOSSARY_SLUG);
+    return doc ? parseGlossary(doc.content, `/docs/${GLOSSARY_SLUG}`) : [];
+  }
+
+  async getGlossaryEntry(term: string): Promise<GlossaryEntry | null> {
+    return findGlossaryEntry(await this.listGlossary(), term);
+  }
+
   private titleFromFilename(filename: string): string {
     return filename
       .replace('.md', '')
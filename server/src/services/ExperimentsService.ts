@@ -1,26 +1,49 @@
-import { readdir, readFile, access } from 'fs/promises';
+import { readdir, readFile, writeFile, access, cp, mkdir } from 'fs/promises';
 import { join } from 'path';
 import matter from 'gray-matter';
 import { CONFIG } from '../config.js';
-import { ExperimentMetadata } from '../types.js';
+import { ExperimentLint, ExperimentMetadata, ExperimentQuery, ManifestIssue, NewExperiment } from '../types.js';
+import { readManifest } from '../manifest.js';
+
+const TEMPLATE_DIR = '_template';
+// Placeholder for the folder name in the template files
+const TEMPLATE_SLUG = 'XX-your-experiment-name';
+// Everything above this heading in the template README explains the template itself
+const TEMPLATE_BODY_HEADING = '## Experiment Structure';
+
+// Shared by every instance, so invalidating it after a change is seen by
+// all services
+const cache: Map<string, ExperimentMetadata> = new Map();
+
+export function slugifyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
 
 export class ExperimentsService {
-  private cache: Map<string, ExperimentMetadata> = new Map();
+  // Drop parsed metadata, of one experiment or all of them
+  invalidateCache(slug?: string) {
+    if (slug) {
+      cache.delete(slug);
+    } else {
+      cache.clear();
+    }
+  }
 
-  async listExperiments(): Promise<ExperimentMetadata[]> {
-    const dirs = await readdir(CONFIG.experimentsDir, { withFileTypes: true });
-    const expDirs = dirs.filter(d => d.isDirectory() && !d.name.startsWith('_'));
+  async listExperiments(query: ExperimentQuery = {}): Promise<ExperimentMetadata[]> {
+    const expDirs = await this.experimentDirs();
 
     const experiments: ExperimentMetadata[] = [];
 
-    for (const dir of expDirs) {
-      const slug = dir.name;
-      let exp = this.cache.get(slug);
+    for (const slug of expDirs) {
+      let exp = cache.get(slug);
 
       if (!exp) {
         exp = await this.parseExperiment(slug);
         if (exp) {
-          this.cache.set(slug, exp);
+          cache.set(slug, exp);
         }
       }
 
@@ -29,7 +52,85 @@ export class ExperimentsService {
       }
     }
 
-    return experiments.sort((a, b) => a.id.localeCompare(b.id));
+    return experiments
+      .filter(exp =>
+        (!query.tag || exp.tags.some(tag => tag.toLowerCase() === query.tag!.toLowerCase())) &&
+        (!query.difficulty || exp.difficulty === query.difficulty)
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Manifest problems of every experiment: schema errors in the README
+   * frontmatter, plus prerequisites, docs and expectation variants that
+   * do not exist. Experiments without problems have no issues.
+   */
+  async lintExperiments(): Promise<ExperimentLint[]> {
+    const slugs = await this.experimentDirs();
+    const docs = new Set(
+      (await readdir(CONFIG.docsDir).catch(() => [] as string[]))
+        .filter(file => file.endsWith('.md'))
+        .map(file => file.replace(/\.md$/, ''))
+    );
+
+    const results: ExperimentLint[] = [];
+    for (const slug of slugs) {
+      const issues: ManifestIssue[] = [];
+      let data: Record<string, unknown>;
+      try {
+        data = matter(await readFile(join(CONFIG.experimentsDir, slug, 'README.md'), 'utf-8')).data;
+      } catch (error: any) {
+        issues.push({ path: 'README.md', message: error.code === 'ENOENT' ? 'Missing' : error.message });
+        results.push({ slug, issues });
+        continue;
+      }
+
+      const { manifest, issues: schemaIssues } = readManifest(data);
+      issues.push(...schemaIssues);
+
+      manifest.prerequisites?.forEach((prerequisite, i) => {
+        if (prerequisite === slug || !slugs.includes(prerequisite)) {
+          issues.push({ path: `prerequisites.${i}`, message: `No other experiment named ${prerequisite}` });
+        }
+      });
+      manifest.relatedDocs?.forEach((doc, i) => {
+        if (!docs.has(doc)) {
+          issues.push({ path: `relatedDocs.${i}`, message: `No doc docs/${doc}.md` });
+        }
+      });
+
+      const variants = await this.detectVariants(slug);
+      manifest.expectations?.forEach((expectation, i) => {
+        const referenced = 'slowerThan' in expectation ? [expectation.variant, expectation.slowerThan] : [expectation.variant];
+        for (const variant of referenced.filter(v => !variants.includes(v))) {
+          issues.push({ path: `expectations.${i}`, message: `Experiment has no ${variant}.js` });
+        }
+      });
+
+      results.push({ slug, issues });
+    }
+
+    return results;
+  }
+
+  // Experiment folders; _shared and _template are not experiments
+  private async experimentDirs(): Promise<string[]> {
+    const dirs = await readdir(CONFIG.experimentsDir, { withFileTypes: true });
+    return dirs
+      .filter(d => d.isDirectory() && !d.name.startsWith('_'))
+      .map(d => d.name)
+      .sort();
+  }
+
+  private async detectVariants(slug: string): Promise<string[]> {
+    const variants: string[] = [];
+    for (const variant of ['baseline', 'deopt', 'fixed']) {
+      try {
+        await access(join(CONFIG.experimentsDir, slug, `${variant}.js`));
+        variants.push(variant);
+      } catch {}
+    }
+    return variants;
   }
 
   async getExperiment(slug: string): Promise<{ metadata: ExperimentMetadata; readme: string } | null> {
@@ -41,87 +142,130 @@ export class ExperimentsService {
       const metadata = await this.parseExperiment(slug);
       if (!metadata) return null;
 
-      const readme = await readFile(readmePath, 'utf-8');
+      // Frontmatter is metadata, not part of the rendered README
+      const { content: readme } = matter(await readFile(readmePath, 'utf-8'));
       return { metadata, readme };
     } catch (error) {
       return null;
     }
   }
 
+  // Code of one variant, or null if the experiment has no such variant
+  async getSource(slug: string, variant: string): Promise<string | null> {
+    // Both end up in a path
+    if (!/^[\w-]+$/.test(slug) || !/^[\w-]+$/.test(variant)) return null;
+
+    try {
+      return await readFile(join(CONFIG.experimentsDir, slug, `${variant}.js`), 'utf-8');
+    } catch (error) {
+      return null;
+    }
+  }
+
   private async parseExperiment(slug: string): Promise<ExperimentMetadata | null> {
     const expDir = join(CONFIG.experimentsDir, slug);
     const readmePath = join(expDir, 'README.md');
 
     try {
       const content = await readFile(readmePath, 'utf-8');
-      const { data } = matter(content);
-
-      // Detect available variants
-      const variants: string[] = [];
-      for (const variant of ['baseline', 'deopt', 'fixed']) {
-        try {
-          await access(join(expDir, `${variant}.js`));
-          variants.push(variant);
-        } catch {}
-      }
-
-      // Extract tags from folder name
-      const tags = this.extractTags(slug);
-
-      // Determine difficulty from folder number
-      const difficulty = this.determineDifficulty(slug);
+      // Invalid fields are left out here and reported by lintExperiments
+      const { manifest } = readManifest(matter(content).data);
 
       return {
         id: slug,
         slug,
-        name: data.title || this.titleFromSlug(slug),
-        description: data.description || data.purpose || 'V8 optimization experiment',
-        variants,
-        tags,
-        difficulty,
+        name: manifest.title || this.titleFromSlug(slug),
+        description: manifest.description || 'V8 optimization experiment',
+        variants: await this.detectVariants(slug),
+        tags: manifest.tags ?? [],
+        difficulty: manifest.difficulty,
+        concepts: manifest.concepts ?? [],
+        prerequisites: manifest.prerequisites ?? [],
+        relatedDocs: manifest.relatedDocs ?? [],
+        outcomes: manifest.outcomes ?? [],
         readmePath: 'README.md',
+        expectations: manifest.expectations ?? [],
       };
     } catch (error) {
       return null;
     }
   }
 
-  private titleFromSlug(slug: string): string {
-    return slug
-      .replace(/^\d+-/, '')
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  }
+  /**
+   * Create the next numbered experiment folder from experiments/_template,
+   * with the README frontmatter filled in. Returns null if an experiment
+   * with the same name or title already exists.
+   */
+  async createExperiment(input: NewExperiment): Promise<ExperimentMetadata | null> {
+    const name = slugifyName(input.name);
+    const dirs = (await readdir(CONFIG.experimentsDir, { withFileTypes: true }))
+      .filter(d => d.isDirectory() && /^\d+-/.test(d.name))
+      .map(d => d.name);
+
+    const existing = await this.listExperiments();
+    const title = input.name.trim();
+    if (
+      dirs.some(dir => dir.replace(/^\d+-/, '') === name) ||
+      existing.some(exp => exp.name.toLowerCase() === title.toLowerCase())
+    ) {
+      return null;
+    }
 
-  private extractTags(slug: string): string[] {
-    const tagMap: Record<string, string[]> = {
-      'hidden-classes': ['shapes', 'optimization'],
-      'inline-caches': ['IC', 'optimization'],
-      'elements-kinds': ['arrays', 'optimization'],
-      'polymorphism': ['IC', 'deoptimization'],
-      'try-catch': ['bailout', 'optimization'],
-      'gc': ['memory', 'garbage-collection'],
-      'async': ['promises', 'microtasks'],
-      'buffer': ['Node.js', 'TypedArray'],
-      'string': ['strings', 'optimization'],
-      'json': ['parsing', 'shapes'],
-    };
-
-    const tags: string[] = [];
-    for (const [key, values] of Object.entries(tagMap)) {
-      if (slug.includes(key)) {
-        tags.push(...values);
+    const number = Math.max(0, ...dirs.map(dir => parseInt(dir, 10))) + 1;
+    const slug = `${String(number).padStart(2, '0')}-${name}`;
+    const expDir = join(CONFIG.experimentsDir, slug);
+
+    try {
+      // Not recursive: fails if a concurrent request took the same number
+      await mkdir(expDir);
+    } catch (error: any) {
+      if (error.code === 'EEXIST') return null;
+      throw error;
+    }
+
+    await cp(join(CONFIG.experimentsDir, TEMPLATE_DIR), expDir, { recursive: true });
+
+    for (const file of await readdir(expDir)) {
+      const path = join(expDir, file);
+      const content = (await readFile(path, 'utf-8')).replaceAll(TEMPLATE_SLUG, slug);
+
+      if (file !== 'README.md') {
+        await writeFile(path, content, 'utf-8');
+        continue;
       }
+
+      const { description } = input;
+      const start = content.indexOf(TEMPLATE_BODY_HEADING);
+      const readme = [
+        '',
+        `# Experiment ${String(number).padStart(2, '0')}: ${title}`,
+        '',
+        description,
+        '',
+        start === -1 ? content : content.slice(start),
+      ].join('\n');
+
+      await writeFile(path, matter.stringify(readme, {
+        title,
+        description,
+        tags: input.tags,
+        difficulty: input.difficulty,
+        concepts: [],
+        prerequisites: [],
+        relatedDocs: [],
+        outcomes: [],
+      }), 'utf-8');
     }
 
-    return tags.length > 0 ? tags : ['optimization'];
+    this.invalidateCache(slug);
+    return this.parseExperiment(slug);
   }
 
-  private determineDifficulty(slug: string): 'beginner' | 'intermediate' | 'advanced' {
-    const num = parseInt(slug.split('-')[0], 10);
-    if (num <= 7) return 'beginner';
-    if (num <= 14) return 'intermediate';
-    return 'advanced';
+  private titleFromSlug(slug: string): string {
+    return slug
+      .replace(/^\d+-/, '')
+      .split('-')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
   }
 }
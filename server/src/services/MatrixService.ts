@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../config.js';
+import { MatrixEntry, MatrixMetadata, MatrixResult, NodeRuntime } from '../types.js';
+import { ValidatedMatrixOptions } from '../validation.js';
+import { ExperimentsService } from './ExperimentsService.js';
+import { RunService, groupStatus, runService } from './RunService.js';
+
+export class MatrixService {
+  private experimentsService = new ExperimentsService();
+
+  constructor(private runs: RunService) {}
+
+  /**
+   * Queue one experiment variant once per runtime, with identical options.
+   * Returns null if the experiment or variant does not exist.
+   *
+   * @param runtimes  Runtimes to cover, oldest first (see RuntimeService)
+   */
+  async createMatrix(options: ValidatedMatrixOptions, runtimes: NodeRuntime[]): Promise<MatrixMetadata | null> {
+    const experiment = await this.experimentsService.getExperiment(options.exp);
+    if (!experiment || !experiment.metadata.variants.includes(options.variant)) return null;
+
+    const id = randomUUID();
+    const { runtimes: _, ...runOptions } = options;
+    const runIds = await this.runs.createRunGroup(
+      // ns/op is compared across runtimes, so every run gets an exclusive slot
+      runtimes.map(runtime => ({ ...runOptions, runtime: runtime.id, timingSensitive: true })),
+      { matrixId: id }
+    );
+
+    const metadata: MatrixMetadata = {
+      id,
+      experiment: options.exp,
+      variant: options.variant,
+      options: {
+        trace: options.trace,
+        profile: options.profile,
+        warmup: options.warmup,
+        repeat: options.repeat,
+        samples: options.samples,
+        v8Flags: options.v8Flags,
+      },
+      runs: Object.fromEntries(runtimes.map((runtime, i) => [runtime.id, runIds[i]])),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.saveMetadata(metadata);
+    return metadata;
+  }
+
+  async getMatrix(id: string): Promise<MatrixResult | null> {
+    const metadata = await this.loadMetadata(id);
+    if (!metadata) return null;
+
+    const entries: MatrixEntry[] = [];
+    for (const [runtime, runId] of Object.entries(metadata.runs)) {
+      const run = await this.runs.getRun(runId);
+      entries.push({
+        runtime,
+        runId,
+        status: run?.status ?? 'failed',
+        nodeVersion: run?.environment.nodeVersion ?? runtime,
+        v8Version: run?.environment.v8Version ?? 'unknown',
+        nsPerOp: run?.results?.nsPerOp,
+        ci: run?.results?.statistics?.ci,
+        deoptCount: run?.results?.deoptCount ?? null,
+      });
+    }
+
+    return {
+      ...metadata,
+      status: groupStatus(entries.map(entry => entry.status)),
+      entries,
+    };
+  }
+
+  private async loadMetadata(id: string): Promise<MatrixMetadata | null> {
+    const filePath = join(CONFIG.artifactsDir, 'matrices', `${id}.json`);
+
+    try {
+      const content = await readFile(filePath, 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async saveMetadata(metadata: MatrixMetadata) {
+    const matricesDir = join(CONFIG.artifactsDir, 'matrices');
+    await mkdir(matricesDir, { recursive: true });
+
+    const filePath = join(matricesDir, `${metadata.id}.json`);
+    await writeFile(filePath, JSON.stringify(metadata, null, 2), 'utf-8');
+  }
+}
+
+// Singleton instance
+export const matrixService = new MatrixService(runService);
@@ -0,0 +1,217 @@
+import { randomUUID } from 'crypto';
+import { ContentChange, RunMetadata } from '../types.js';
+import { ContentWatchService, contentWatchService } from './ContentWatchService.js';
+import { RunService, runService } from './RunService.js';
+
+/**
+ * Live updates are published on channels: "run:<id>" for one run's output
+ * and status, "queue" for the queue status, "content" for edits to docs
+ * and experiments. Every message carries a
+ * sequence number, increasing by one per channel, so a client that
+ * reconnects can ask for everything after the last number it saw.
+ *
+ * Sequence numbers start over when the server restarts. Messages also
+ * carry the server's epoch, which changes on every start, so clients can
+ * tell a restart from a message they already have.
+ */
+export type ChannelMessageType =
+  | 'status'
+  | 'stdout'
+  | 'stderr'
+  | 'error'
+  | 'complete'
+  | 'queue'
+  | 'content:changed';
+
+export interface ChannelMessage {
+  channel: string;
+  seq: number;
+  epoch: string;
+  type: ChannelMessageType;
+  data: unknown;
+}
+
+export type ChannelListener = (message: ChannelMessage) => void;
+
+interface Channel {
+  seq: number;
+  // Oldest first; output chunks count against the byte budget
+  buffer: ChannelMessage[];
+  bufferedBytes: number;
+  listeners: Set<ChannelListener>;
+  finished: boolean;
+}
+
+// Output kept per run for late subscribers (UTF-8 bytes); older chunks are
+// dropped first
+const RUN_BUFFER_BYTES = 1024 * 1024;
+// Finished runs whose buffers are kept, so a page opened just after a run
+// completed can still replay its output
+const MAX_FINISHED_CHANNELS = 20;
+
+const QUEUE_CHANNEL = 'queue';
+const CONTENT_CHANNEL = 'content';
+
+export function runChannel(id: string): string {
+  return `run:${id}`;
+}
+
+function messageBytes(message: ChannelMessage): number {
+  return typeof message.data === 'string' ? Buffer.byteLength(message.data) : 0;
+}
+
+export class RunChannelService {
+  // Identifies this server process; see ChannelMessage.epoch
+  readonly epoch = randomUUID();
+  private channels = new Map<string, Channel>();
+  // Last sequence number of evicted run channels. A channel opened again
+  // for a late subscriber numbers on from there, so clients that saw the
+  // old channel do not take its replay for messages they already have.
+  private evictedSeqs = new Map<string, number>();
+
+  constructor(private runs: RunService, content: ContentWatchService) {
+    // One set of listeners for every client, however many subscribe
+    runs.on('run:start', (id: string) => this.publishRun(id, 'status', 'running'));
+    runs.on('run:stdout', (id: string, chunk: string) => this.publishRun(id, 'stdout', chunk));
+    runs.on('run:stderr', (id: string, chunk: string) => this.publishRun(id, 'stderr', chunk));
+    runs.on('run:error', (id: string, error: string) => this.publishRun(id, 'error', error));
+    runs.on('run:complete', (id: string, metadata: RunMetadata) => {
+      this.publishRun(id, 'complete', metadata);
+      this.finish(runChannel(id));
+    });
+    runs.on('queue:change', () => this.publishQueue());
+    content.on('content:changed', (change: ContentChange) => {
+      const state = this.publish(CONTENT_CHANNEL, 'content:changed', change);
+      // A client that missed changes while disconnected only needs to
+      // know there were some
+      state.buffer = state.buffer.slice(-1);
+    });
+  }
+
+  /**
+   * Replay buffered messages with a sequence number above `since`, then
+   * deliver new ones as they are published. Returns an unsubscribe
+   * function, or null if the channel names a run that does not exist.
+   *
+   * Replayed sequence numbers can skip ahead when the buffer dropped old
+   * output; the queue and content channels only replay their latest
+   * message. `since` from another epoch (before a restart) replays
+   * everything.
+   */
+  async subscribe(
+    channel: string,
+    since: number,
+    listener: ChannelListener,
+    epoch?: string
+  ): Promise<(() => void) | null> {
+    const state = await this.open(channel);
+    if (!state) return null;
+
+    const after = epoch === undefined || epoch === this.epoch ? since : 0;
+    for (const message of state.buffer) {
+      if (message.seq > after) listener(message);
+    }
+    state.listeners.add(listener);
+
+    return () => {
+      state.listeners.delete(listener);
+    };
+  }
+
+  private async open(channel: string): Promise<Channel | null> {
+    const existing = this.channels.get(channel);
+    if (existing) return existing;
+
+    if (channel === QUEUE_CHANNEL) {
+      this.publishQueue();
+      return this.channels.get(channel)!;
+    }
+
+    // Nothing to replay until something changes
+    if (channel === CONTENT_CHANNEL) {
+      return this.channel(channel);
+    }
+
+    if (!channel.startsWith('run:')) return null;
+    const run = await this.runs.getRun(channel.slice('run:'.length));
+    if (!run) return null;
+
+    // Another subscriber may have opened it while the run was loading
+    const opened = this.channels.get(channel);
+    if (opened) return opened;
+
+    // A run not seen since the server started, or evicted since: its status
+    // is all there is to replay, plus the final metadata if it already finished
+    this.publish(channel, 'status', run.status);
+    if (run.status !== 'queued' && run.status !== 'running') {
+      this.publish(channel, 'complete', run);
+      this.finish(channel);
+    }
+    return this.channels.get(channel)!;
+  }
+
+  private publishRun(id: string, type: ChannelMessageType, data: unknown) {
+    this.publish(runChannel(id), type, data);
+  }
+
+  private publishQueue() {
+    const state = this.publish(QUEUE_CHANNEL, 'queue', this.runs.getQueueStatus());
+    // Only the current status matters to a new subscriber
+    state.buffer = state.buffer.slice(-1);
+  }
+
+  private channel(channel: string): Channel {
+    let state = this.channels.get(channel);
+    if (!state) {
+      state = {
+        seq: this.evictedSeqs.get(channel) ?? 0,
+        buffer: [],
+        bufferedBytes: 0,
+        listeners: new Set(),
+        finished: false,
+      };
+      this.channels.set(channel, state);
+      this.evictedSeqs.delete(channel);
+    }
+    return state;
+  }
+
+  private publish(channel: string, type: ChannelMessageType, data: unknown): Channel {
+    const state = this.channel(channel);
+
+    const message: ChannelMessage = { channel, seq: ++state.seq, epoch: this.epoch, type, data };
+    state.buffer.push(message);
+    state.bufferedBytes += messageBytes(message);
+
+    while (state.bufferedBytes > RUN_BUFFER_BYTES && state.buffer.length > 1) {
+      state.bufferedBytes -= messageBytes(state.buffer.shift()!);
+    }
+
+    for (const listener of state.listeners) {
+      listener(message);
+    }
+
+    return state;
+  }
+
+  // Keep the buffer for late subscribers, but only of the most recently
+  // finished runs
+  private finish(channel: string) {
+    const state = this.channels.get(channel);
+    if (!state) return;
+
+    state.finished = true;
+    // Move to the end, so eviction below goes oldest finished first
+    this.channels.delete(channel);
+    this.channels.set(channel, state);
+
+    const finished = [...this.channels.entries()].filter(([, s]) => s.finished && s.listeners.size === 0);
+    for (const [name, evicted] of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_CHANNELS))) {
+      this.channels.delete(name);
+      this.evictedSeqs.set(name, evicted.seq);
+    }
+  }
+}
+
+// Singleton instance
+export const runChannelService = new RunChannelService(runService, contentWatchService);
@@ -0,0 +1,176 @@
+import { createReadStream } from 'fs';
+import { appendFile, mkdir, open, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../config.js';
+import { RunLog, RunLogLine, RunLogQuery, RunLogStream } from '../types.js';
+import { RunService, runService } from './RunService.js';
+
+interface ActiveLog {
+  // Lines written so far; numbers the next one
+  count: number;
+  // Output after the last newline, per stream
+  partial: Record<RunLogStream, string>;
+  // Appends must land in order
+  writes: Promise<void>;
+}
+
+// Logs whose line offsets are kept between page requests
+const MAX_INDEXED_LOGS = 20;
+
+const NEWLINE = 0x0a;
+
+function logPath(id: string): string {
+  return join(CONFIG.artifactsDir, 'runs', `${id}.log.jsonl`);
+}
+
+/**
+ * Keeps the complete output of every run as timestamped lines, one JSON
+ * object per line in artifacts/runs/<id>.log.jsonl, so it can be replayed
+ * after the live channel buffer is gone.
+ *
+ * Pages of a log are read by byte range: the byte offset of every line is
+ * kept for recently read logs, and only output appended since is scanned.
+ */
+export class RunLogService {
+  private active = new Map<string, ActiveLog>();
+  // Byte offset of every line start, then of the end of the last line;
+  // least recently read first
+  private indexes = new Map<string, number[]>();
+
+  constructor(runs: RunService) {
+    runs.on('run:start', (id: string) => this.start(id));
+    runs.on('run:stdout', (id: string, chunk: string) => this.append(id, 'stdout', chunk));
+    runs.on('run:stderr', (id: string, chunk: string) => this.append(id, 'stderr', chunk));
+    runs.on('run:complete', (id: string) => this.finish(id));
+  }
+
+  /**
+   * Lines of a run's log, optionally of one stream and within a range of
+   * line numbers. Runs without output (still queued, or recorded before
+   * logs were kept) have an empty log.
+   */
+  async getLog(id: string, query: RunLogQuery = {}): Promise<RunLog> {
+    // Include everything received before the request
+    await this.active.get(id)?.writes;
+
+    const offsets = await this.indexLog(id);
+    if (!offsets) return { lines: [], total: 0 };
+
+    const total = offsets.length - 1;
+    const from = Math.min(query.from ?? 0, total);
+    const to = Math.min(query.to ?? total, total);
+    if (from >= to) return { lines: [], total };
+
+    const buffer = Buffer.alloc(offsets[to] - offsets[from]);
+    const file = await open(logPath(id), 'r');
+    try {
+      await file.read(buffer, 0, buffer.length, offsets[from]);
+    } finally {
+      await file.close();
+    }
+
+    const lines = buffer.toString('utf-8').split('\n').filter(Boolean).map(line => JSON.parse(line) as RunLogLine);
+    return {
+      lines: lines.filter(line => !query.stream || line.stream === query.stream),
+      total,
+    };
+  }
+
+  /**
+   * Line offsets of a log, scanning what was appended since the last call.
+   * Returns null if the run has no log.
+   */
+  private async indexLog(id: string): Promise<number[] | null> {
+    let size: number;
+    try {
+      size = (await stat(logPath(id))).size;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let offsets = this.indexes.get(id);
+    // Shorter than indexed: the log started over
+    if (!offsets || offsets[offsets.length - 1] > size) offsets = [0];
+    this.indexes.delete(id);
+    this.indexes.set(id, offsets);
+    if (this.indexes.size > MAX_INDEXED_LOGS) {
+      this.indexes.delete(this.indexes.keys().next().value!);
+    }
+
+    // Up to the last newline; a line still being written waits for the next call
+    const start = offsets[offsets.length - 1];
+    if (start === size) return offsets;
+
+    const added: number[] = [];
+    let position = start;
+    for await (const chunk of createReadStream(logPath(id), { start, end: size - 1 }) as AsyncIterable<Buffer>) {
+      for (let i = chunk.indexOf(NEWLINE); i !== -1; i = chunk.indexOf(NEWLINE, i + 1)) {
+        added.push(position + i + 1);
+      }
+      position += chunk.length;
+    }
+
+    // A concurrent request may have indexed the same output already
+    if (offsets[offsets.length - 1] === start) {
+      for (const offset of added) offsets.push(offset);
+    }
+    return offsets;
+  }
+
+  private start(id: string) {
+    const log: ActiveLog = { count: 0, partial: { stdout: '', stderr: '' }, writes: Promise.resolve() };
+    this.active.set(id, log);
+    this.indexes.delete(id);
+
+    // A run requeued after a restart starts over
+    this.enqueue(log, async () => {
+      await mkdir(join(CONFIG.artifactsDir, 'runs'), { recursive: true });
+      await writeFile(logPath(id), '', 'utf-8');
+    });
+  }
+
+  private append(id: string, stream: RunLogStream, chunk: string) {
+    const log = this.active.get(id);
+    if (!log) return;
+
+    const parts = (log.partial[stream] + chunk).split('\n');
+    log.partial[stream] = parts.pop()!;
+    this.write(id, log, stream, parts);
+  }
+
+  private finish(id: string) {
+    const log = this.active.get(id);
+    if (!log) return;
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (log.partial[stream]) this.write(id, log, stream, [log.partial[stream]]);
+      log.partial[stream] = '';
+    }
+
+    // Readers wait on the pending writes, then find no active log
+    const done = log.writes;
+    done.then(() => {
+      if (this.active.get(id) === log) this.active.delete(id);
+    });
+  }
+
+  private write(id: string, log: ActiveLog, stream: RunLogStream, texts: string[]) {
+    if (texts.length === 0) return;
+
+    const t = Date.now();
+    const lines = texts
+      .map(text => JSON.stringify({ n: log.count++, t, stream, text } satisfies RunLogLine))
+      .join('\n');
+    this.enqueue(log, () => appendFile(logPath(id), `${lines}\n`, 'utf-8'));
+  }
+
+  private enqueue(log: ActiveLog, task: () => Promise<void>) {
+    log.writes = log.writes.then(task).catch((error) => {
+      console.error('Error writing run log:', error);
+    });
+  }
+}
+
+// Singleton instance
+export const runLogService = new RunLogService(runService);
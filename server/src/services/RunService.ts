@@ -1,23 +1,121 @@
 import { randomUUID } from 'crypto';
-import { mkdir, writeFile, readFile, readdir } from 'fs/promises';
-import { join } from 'path';
-import { execa } from 'execa';
+import { cpus } from 'os';
+import { mkdir, writeFile, readFile, readdir, stat } from 'fs/promises';
+import { join, relative, resolve, sep } from 'path';
+import { execa, ExecaChildProcess } from 'execa';
 import { CONFIG } from '../config.js';
-import { RunMetadata, RunOptions, RunStatus } from '../types.js';
+import { BenchmarkMeasurement, CpuProfile, NodeRuntime, ProfileTree, RunMetadata, RunArtifact, RunOptions, RunPage, RunQuery, RunResults, RunStatus, TraceEvent } from '../types.js';
 import { EventEmitter } from 'events';
+import { mean, summarizeSamples } from '../stats.js';
+import { parseTrace, summarizeTrace } from '../traceParser.js';
+import { parseCpuProfile } from '../cpuProfile.js';
+import { captureEnvironment } from '../environment.js';
+import { runRepository } from '../repositories/RunRepository.js';
+import { runtimeService } from './RuntimeService.js';
+import { parseMarker, parseResult } from '../../../experiments/_shared/harness.js';
+
+// Must match ARTIFACTS_MARKER in scripts/run-experiment.js
+const ARTIFACTS_MARKER = '@@v8lab:artifacts';
 
 interface QueuedRun {
   id: string;
   options: RunOptions;
   metadata: RunMetadata;
+  // Set by cancelRun while the run is executing
+  cancelled?: boolean;
+}
+
+interface Worker {
+  // Slot number, 1..CONFIG.runConcurrency
+  slot: number;
+  run: QueuedRun;
+  process: ExecaChildProcess | null;
+  // CPU the child processes are pinned to (timing-sensitive runs only)
+  cpu?: number;
+  startedAt: string;
+}
+
+/**
+ * Tracing and profiling slow a run down, so its timings do not compare
+ * with those of plain runs.
+ */
+export function isInstrumented(options: Pick<RunOptions, 'trace' | 'profile' | 'v8Flags'>): boolean {
+  return options.trace || options.profile || (options.v8Flags ?? []).some(flag => flag.startsWith('--trace-'));
+}
+
+/**
+ * Status of a group of runs (a comparison or a matrix): any failure fails
+ * the group, and it is only completed once every run is.
+ */
+export function groupStatus(statuses: RunStatus[]): RunStatus {
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('cancelled')) return 'cancelled';
+  if (statuses.includes('running')) return 'running';
+  if (statuses.every(s => s === 'completed')) return 'completed';
+  return statuses.includes('completed') ? 'running' : 'queued';
+}
+
+/**
+ * Runs without tracing or profiling exist to measure time, so they are
+ * timing-sensitive unless the caller says otherwise.
+ */
+function isTimingSensitive(options: RunOptions): boolean {
+  if (options.timingSensitive !== undefined) return options.timingSensitive;
+  return !isInstrumented(options);
 }
 
 export class RunService extends EventEmitter {
   private queue: QueuedRun[] = [];
-  private currentRun: QueuedRun | null = null;
-  private processing = false;
+  // Executing runs by id
+  private workers = new Map<string, Worker>();
+  private tasksetAvailable: Promise<boolean> | null = null;
 
   async createRun(options: RunOptions): Promise<string> {
+    const [id] = await this.createRunGroup([options]);
+    return id;
+  }
+
+  /**
+   * Queue several runs back to back. They are pushed onto the queue
+   * together, so for timing-sensitive runs (which execute alone) no other
+   * run can be scheduled in between them.
+   */
+  async createRunGroup(
+    optionsList: RunOptions[],
+    group?: Pick<RunMetadata, 'comparisonId' | 'matrixId'>
+  ): Promise<string[]> {
+    const queuedRuns: QueuedRun[] = [];
+    for (const options of optionsList) {
+      queuedRuns.push(this.buildQueuedRun(options, await this.resolveRuntime(options), group));
+    }
+    this.queue.push(...queuedRuns);
+
+    // Save initial metadata
+    for (const run of queuedRuns) {
+      await this.saveMetadata(run.metadata);
+    }
+    await this.persistQueue();
+
+    this.schedule();
+
+    return queuedRuns.map(run => run.id);
+  }
+
+  // Routes reject unknown runtimes; this catches a retry of a run whose
+  // runtime has been uninstalled since
+  private async resolveRuntime(options: RunOptions): Promise<NodeRuntime | null> {
+    if (!options.runtime) return null;
+
+    const runtime = await runtimeService.getRuntime(options.runtime);
+    if (!runtime) throw new Error(`Unknown Node runtime: ${options.runtime}`);
+    return runtime;
+  }
+
+  private buildQueuedRun(
+    options: RunOptions,
+    runtime: NodeRuntime | null,
+    group?: Pick<RunMetadata, 'comparisonId' | 'matrixId'>
+  ): QueuedRun {
     const id = randomUUID();
     const now = new Date().toISOString();
 
@@ -25,106 +123,111 @@ export class RunService extends EventEmitter {
       id,
       experiment: options.exp,
       variant: options.variant,
+      ...group,
       options: {
         trace: options.trace,
         profile: options.profile,
         warmup: options.warmup,
         repeat: options.repeat,
+        samples: options.samples,
+        v8Flags: options.v8Flags,
+        timingSensitive: isTimingSensitive(options),
+        ...(runtime && { runtime: runtime.id }),
       },
       status: 'queued',
       timestamps: {
         queued: now,
       },
       environment: {
-        nodeVersion: process.version,
-        v8Version: process.versions.v8,
+        nodeVersion: runtime?.nodeVersion ?? process.version,
+        v8Version: runtime?.v8Version ?? process.versions.v8,
+        ...(runtime && { nodePath: runtime.path }),
         platform: process.platform,
         arch: process.arch,
       },
       artifacts: {},
     };
 
-    const queuedRun: QueuedRun = { id, options, metadata };
-    this.queue.push(queuedRun);
-
-    // Save initial metadata
-    await this.saveMetadata(metadata);
-
-    // Start processing if not already
-    if (!this.processing) {
-      this.processQueue();
-    }
-
-    return id;
+    return { id, options, metadata };
   }
 
-  async listRuns(): Promise<RunMetadata[]> {
-    const runsDir = join(CONFIG.artifactsDir, 'runs');
-
-    try {
-      await mkdir(runsDir, { recursive: true });
-      const files = await readdir(runsDir);
-      const jsonFiles = files.filter(f => f.endsWith('.json'));
-
-      const runs: RunMetadata[] = [];
-      for (const file of jsonFiles) {
-        try {
-          const content = await readFile(join(runsDir, file), 'utf-8');
-          runs.push(JSON.parse(content));
-        } catch (error) {
-          console.error(`Error reading run file ${file}:`, error);
-        }
-      }
-
-      // Sort by timestamp (newest first)
-      return runs.sort((a, b) =>
-        new Date(b.timestamps.queued).getTime() - new Date(a.timestamps.queued).getTime()
-      );
-    } catch (error) {
-      return [];
-    }
+  async listRuns(query: RunQuery): Promise<RunPage> {
+    return runRepository.query(query);
   }
 
   async getRun(id: string): Promise<RunMetadata | null> {
-    const filePath = join(CONFIG.artifactsDir, 'runs', `${id}.json`);
+    return runRepository.get(id);
+  }
 
-    try {
-      const content = await readFile(filePath, 'utf-8');
-      return JSON.parse(content);
-    } catch (error) {
-      return null;
+  /**
+   * Start queued runs in FIFO order while slots allow. A timing-sensitive
+   * run waits until every worker is idle and then runs alone; other runs
+   * share up to CONFIG.runConcurrency slots.
+   */
+  private schedule() {
+    while (this.queue.length > 0 && this.canStart(this.queue[0])) {
+      this.startWorker(this.queue.shift()!);
     }
   }
 
-  private async processQueue() {
-    if (this.processing) return;
-    this.processing = true;
+  private canStart(run: QueuedRun): boolean {
+    if (this.workers.size === 0) return true;
+    if (run.metadata.options.timingSensitive) return false;
+    if ([...this.workers.values()].some(w => w.run.metadata.options.timingSensitive)) return false;
+    return this.workers.size < CONFIG.runConcurrency;
+  }
+
+  private async startWorker(run: QueuedRun) {
+    const used = new Set([...this.workers.values()].map(w => w.slot));
+    let slot = 1;
+    while (used.has(slot)) slot++;
 
-    while (this.queue.length > 0) {
-      const run = this.queue.shift()!;
-      this.currentRun = run;
+    const worker: Worker = { slot, run, process: null, startedAt: new Date().toISOString() };
+    this.workers.set(run.id, worker);
 
-      try {
-        await this.executeRun(run);
-      } catch (error) {
-        console.error(`Error executing run ${run.id}:`, error);
-        run.metadata.status = 'failed';
-        run.metadata.timestamps.completed = new Date().toISOString();
-        await this.saveMetadata(run.metadata);
+    try {
+      await this.persistQueue();
+
+      if (run.metadata.options.timingSensitive && await this.canPin()) {
+        worker.cpu = CONFIG.timingCpu ?? cpus().length - 1;
       }
 
-      this.currentRun = null;
+      await this.executeRun(worker);
+    } catch (error) {
+      console.error(`Error executing run ${run.id}:`, error);
+      run.metadata.status = 'failed';
+      run.metadata.failureReason = 'error';
+      run.metadata.timestamps.completed = new Date().toISOString();
+      await this.saveMetadata(run.metadata);
+      this.emit('run:complete', run.id, run.metadata);
+    } finally {
+      this.workers.delete(run.id);
+      this.emit('queue:change');
+      this.schedule();
     }
+  }
 
-    this.processing = false;
+  // taskset (util-linux) is only available on Linux
+  private canPin(): Promise<boolean> {
+    if (!this.tasksetAvailable) {
+      this.tasksetAvailable = process.platform !== 'linux'
+        ? Promise.resolve(false)
+        : execa('taskset', ['--version']).then(() => true, () => false);
+    }
+    return this.tasksetAvailable;
   }
 
-  private async executeRun(run: QueuedRun) {
+  private async executeRun(worker: Worker) {
+    const { run } = worker;
     const { id, options, metadata } = run;
 
     // Update status to running
     metadata.status = 'running';
     metadata.timestamps.started = new Date().toISOString();
+    if (worker.cpu !== undefined) {
+      metadata.environment.pinnedCpu = worker.cpu;
+    }
+    Object.assign(metadata.environment, await captureEnvironment(options.exp, options.variant));
     await this.saveMetadata(metadata);
 
     // Emit event for live streaming
@@ -143,85 +246,441 @@ export class RunService extends EventEmitter {
 
     if (options.trace) args.push('--trace', 'on');
     if (options.profile) args.push('--profile', 'on');
+    for (const flag of options.v8Flags) {
+      args.push('--v8-flag', flag);
+    }
+    if (metadata.environment.nodePath) args.push('--node', metadata.environment.nodePath);
+
+    // Each sample is an independent child process, so JIT state never
+    // carries over between measurements
+    const sampleOutputs: string[] = [];
+    // V8 prints trace output to stdout, so keep both streams interleaved
+    let traceOutput = '';
+    const traced = options.trace || options.v8Flags.some(flag => flag.startsWith('--trace-'));
 
     try {
-      // Execute the experiment
-      const result = execa('node', args, {
-        cwd: CONFIG.rootDir,
-        timeout: CONFIG.maxRunTimeoutMs,
-      });
-
-      // Stream stdout
-      result.stdout?.on('data', (data) => {
-        const chunk = data.toString();
-        this.emit('run:stdout', id, chunk);
-      });
-
-      // Stream stderr
-      result.stderr?.on('data', (data) => {
-        const chunk = data.toString();
-        this.emit('run:stderr', id, chunk);
-      });
-
-      // Wait for completion
-      await result;
+      for (let sample = 0; sample < options.samples; sample++) {
+        // Cancelled between two samples
+        if (run.cancelled) throw new Error('Run cancelled');
+
+        if (options.samples > 1) {
+          this.emit('run:stdout', id, `\n=== Sample ${sample + 1}/${options.samples} ===\n`);
+        }
+
+        sampleOutputs.push('');
+        await this.executeSample(
+          worker,
+          args,
+          (chunk) => {
+            sampleOutputs[sampleOutputs.length - 1] += chunk;
+            traceOutput += chunk;
+          },
+          (chunk) => { traceOutput += chunk; }
+        );
+      }
 
       const endTime = Date.now();
 
       // Update metadata with success
       metadata.status = 'completed';
       metadata.timestamps.completed = new Date().toISOString();
-      metadata.results = {
-        exitCode: 0,
-        durationMs: endTime - startTime,
-      };
-
-      // Find the artifacts directory created by run-experiment.js
-      const artifactsPattern = join(
-        CONFIG.artifactsDir,
-        options.exp,
-        options.variant
-      );
+      metadata.results = this.buildResults(0, endTime - startTime, sampleOutputs);
+      if (traced) {
+        metadata.results.deoptCount = summarizeTrace(parseTrace(traceOutput)).deopts;
+      }
 
-      // The script creates a timestamped subdirectory
-      // We'll store the relative path for the frontend to access
-      metadata.artifacts = {
-        stdout: `${options.exp}/${options.variant}/latest/stdout.log`,
-        stderr: options.trace ? `${options.exp}/${options.variant}/latest/trace.log` : undefined,
-        cpuProfile: options.profile ? `${options.exp}/${options.variant}/latest/*.cpuprofile` : undefined,
-      };
+      metadata.artifacts = await this.resolveArtifacts(id, sampleOutputs, traced ? traceOutput : null);
 
     } catch (error: any) {
       const endTime = Date.now();
 
-      metadata.status = 'failed';
+      metadata.status = run.cancelled ? 'cancelled' : 'failed';
+      if (!run.cancelled) {
+        metadata.failureReason = error.timedOut ? 'timeout' : 'error';
+      }
       metadata.timestamps.completed = new Date().toISOString();
-      metadata.results = {
-        exitCode: error.exitCode || 1,
-        durationMs: endTime - startTime,
-      };
+      metadata.results = this.buildResults(error.exitCode || 1, endTime - startTime, sampleOutputs);
+      metadata.artifacts = await this.resolveArtifacts(id, sampleOutputs, traced ? traceOutput : null);
 
-      this.emit('run:error', id, error.message || 'Unknown error');
+      if (!run.cancelled) {
+        this.emit('run:error', id, error.message || 'Unknown error');
+      }
     }
 
+    this.recordChildEnvironment(metadata, sampleOutputs);
+
     // Save final metadata
     await this.saveMetadata(metadata);
     this.emit('run:complete', id, metadata);
   }
 
-  private async saveMetadata(metadata: RunMetadata) {
+  // Replace the versions recorded at queue time with the ones the
+  // experiment process reported, so they are right even for runs on the
+  // node on PATH (which need not be the server's own), and record the
+  // flags it really ran with
+  private recordChildEnvironment(metadata: RunMetadata, sampleOutputs: string[]) {
+    for (const stdout of sampleOutputs) {
+      const measurement = parseResult<BenchmarkMeasurement>(stdout);
+      if (measurement?.nodeVersion && measurement.v8Version) {
+        metadata.environment.nodeVersion = measurement.nodeVersion;
+        metadata.environment.v8Version = measurement.v8Version;
+        if (measurement.execArgv) {
+          metadata.environment.effectiveFlags = measurement.execArgv;
+        }
+        return;
+      }
+    }
+  }
+
+  private async executeSample(
+    worker: Worker,
+    args: string[],
+    onStdout: (chunk: string) => void,
+    onStderr: (chunk: string) => void
+  ) {
+    const { id } = worker.run;
+
+    // Execute the experiment; the experiment process inherits the affinity
+    const [command, commandArgs] = worker.cpu !== undefined
+      ? ['taskset', ['-c', worker.cpu.toString(), 'node', ...args]]
+      : ['node', args];
+    const result = execa(command, commandArgs, {
+      cwd: CONFIG.rootDir,
+      timeout: CONFIG.maxRunTimeoutMs,
+      // CONFIG.artifactsDir may be relative to the server directory
+      env: { ARTIFACTS_DIR: resolve(CONFIG.artifactsDir) },
+    });
+
+    // Stream stdout
+    result.stdout?.on('data', (data) => {
+      const chunk = data.toString();
+      onStdout(chunk);
+      this.emit('run:stdout', id, chunk);
+    });
+
+    // Stream stderr
+    result.stderr?.on('data', (data) => {
+      const chunk = data.toString();
+      onStderr(chunk);
+      this.emit('run:stderr', id, chunk);
+    });
+
+    // Wait for completion
+    worker.process = result;
+    try {
+      await result;
+    } finally {
+      worker.process = null;
+    }
+  }
+
+  /**
+   * Cancel a queued run, or kill the child process of the running one and
+   * wait for it to be recorded as cancelled. Returns null if the run does
+   * not exist; runs that already finished are returned unchanged.
+   */
+  async cancelRun(id: string): Promise<RunMetadata | null> {
+    const index = this.queue.findIndex(run => run.id === id);
+    if (index !== -1) {
+      const [run] = this.queue.splice(index, 1);
+      await this.persistQueue();
+      run.metadata.status = 'cancelled';
+      run.metadata.timestamps.completed = new Date().toISOString();
+      await this.saveMetadata(run.metadata);
+      this.emit('run:complete', id, run.metadata);
+      return run.metadata;
+    }
+
+    const worker = this.workers.get(id);
+    if (worker) {
+      const completed = this.waitForRun(id);
+      worker.run.cancelled = true;
+      // run-experiment.js forwards the signal to the experiment process
+      worker.process?.kill('SIGTERM');
+      return completed;
+    }
+
+    return this.getRun(id);
+  }
+
+  /**
+   * Resolves with the final metadata once the run has finished, or null
+   * if it does not exist.
+   */
+  async waitForRun(id: string): Promise<RunMetadata | null> {
+    let onComplete!: (runId: string, metadata: RunMetadata) => void;
+    const completed = new Promise<RunMetadata>(resolve => {
+      onComplete = (runId, metadata) => {
+        if (runId === id) resolve(metadata);
+      };
+      this.on('run:complete', onComplete);
+    });
+
+    try {
+      const run = await this.getRun(id);
+      if (!run) return null;
+      if (run.status !== 'queued' && run.status !== 'running') return run;
+      return await completed;
+    } finally {
+      this.off('run:complete', onComplete);
+    }
+  }
+
+  /**
+   * Queue a new run with the same options as an existing one.
+   * Returns null if the run does not exist.
+   */
+  async retryRun(id: string): Promise<string | null> {
+    const run = await this.getRun(id);
+    if (!run) return null;
+
+    return this.createRun(this.optionsFromMetadata(run));
+  }
+
+  /**
+   * Reconcile persisted runs after a restart. Runs that were executing are
+   * marked failed with reason "interrupted"; queued runs go back on the
+   * queue in their original order. Call once, before any run is created.
+   */
+  async recover(): Promise<{ requeued: number; interrupted: number }> {
+    const interrupted = await runRepository.findByStatus('running');
+    for (const metadata of interrupted) {
+      metadata.status = 'failed';
+      metadata.failureReason = 'interrupted';
+      metadata.timestamps.completed = new Date().toISOString();
+      await this.saveMetadata(metadata);
+    }
+
+    // Queued runs missing from the saved order (saved just before a crash)
+    // go last, oldest first
+    const order = await runRepository.loadQueue();
+    const position = (id: string) => {
+      const index = order.indexOf(id);
+      return index === -1 ? order.length : index;
+    };
+    const queued = (await runRepository.findByStatus('queued'))
+      .sort((a, b) => position(a.id) - position(b.id));
+
+    this.queue.push(...queued.map(metadata => ({
+      id: metadata.id,
+      options: this.optionsFromMetadata(metadata),
+      metadata,
+    })));
+    await this.persistQueue();
+
+    this.schedule();
+
+    return { requeued: queued.length, interrupted: interrupted.length };
+  }
+
+  private optionsFromMetadata(run: RunMetadata): RunOptions {
+    return {
+      exp: run.experiment,
+      variant: run.variant as RunOptions['variant'],
+      trace: run.options.trace,
+      profile: run.options.profile,
+      warmup: run.options.warmup,
+      repeat: run.options.repeat,
+      // Runs recorded before these options existed
+      samples: run.options.samples ?? 1,
+      v8Flags: run.options.v8Flags ?? [],
+      timingSensitive: run.options.timingSensitive,
+      runtime: run.options.runtime,
+    };
+  }
+
+  private buildResults(exitCode: number, durationMs: number, sampleOutputs: string[]): RunResults {
+    const results: RunResults = { exitCode, durationMs };
+    const measurements = sampleOutputs
+      .map(stdout => parseResult<BenchmarkMeasurement>(stdout))
+      .filter((m): m is BenchmarkMeasurement => m !== null);
+
+    if (measurements.length === 0) {
+      return results;
+    }
+
+    const last = measurements[measurements.length - 1];
+    results.timeMs = last.timeMs;
+    results.nsPerOp = last.nsPerOp;
+    results.iterations = last.iterations;
+    results.warmupIterations = last.warmup;
+    results.sanity = last.sanity;
+
+    if (measurements.length > 1) {
+      results.nsPerOpSamples = measurements.map(m => m.nsPerOp);
+      results.statistics = summarizeSamples(results.nsPerOpSamples);
+      // Headline numbers describe the whole distribution, not the last sample
+      results.nsPerOp = results.statistics.mean;
+      results.timeMs = mean(measurements.map(m => m.timeMs));
+    }
+
+    return results;
+  }
+
+  /**
+   * Build artifact paths (relative to the artifacts directory) from the
+   * directories run-experiment.js reported for each sample.
+   */
+  private async resolveArtifacts(
+    id: string,
+    sampleOutputs: string[],
+    traceOutput: string | null
+  ): Promise<RunMetadata['artifacts']> {
+    const directories = sampleOutputs
+      .map(stdout => parseMarker<{ dir: string }>(stdout, ARTIFACTS_MARKER))
+      .filter((m): m is { dir: string } => m !== null)
+      .map(m => relative(resolve(CONFIG.artifactsDir), m.dir));
+
+    const artifacts: RunMetadata['artifacts'] = { directories };
+    const lastDir = directories[directories.length - 1];
+    if (!lastDir) return artifacts;
+
+    const files = await readdir(join(CONFIG.artifactsDir, lastDir)).catch(() => [] as string[]);
+    if (files.includes('stdout.log')) artifacts.stdout = join(lastDir, 'stdout.log');
+    if (files.includes('stderr.log')) artifacts.stderr = join(lastDir, 'stderr.log');
+
+    const cpuProfile = files.find(f => f.endsWith('.cpuprofile'));
+    if (cpuProfile) artifacts.cpuProfile = join(lastDir, cpuProfile);
+
+    if (traceOutput !== null) {
+      // A single sample already has its own trace.log; several samples get
+      // one combined log so the trace events cover the whole run
+      artifacts.trace = directories.length === 1 && files.includes('trace.log')
+        ? join(lastDir, 'trace.log')
+        : await this.saveTrace(id, traceOutput);
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Files produced by a run, with sizes. Multi-sample runs prefix each
+   * file with its sample directory ("sample-2/stdout.log").
+   */
+  async listArtifacts(id: string): Promise<RunArtifact[] | null> {
+    const run = await this.getRun(id);
+    if (!run) return null;
+
+    const artifacts: RunArtifact[] = [];
+    const directories = run.artifacts.directories ?? [];
+
+    for (let i = 0; i < directories.length; i++) {
+      const prefix = directories.length > 1 ? `sample-${i + 1}/` : '';
+      const files = await readdir(join(CONFIG.artifactsDir, directories[i])).catch(() => [] as string[]);
+
+      for (const file of files.sort()) {
+        const path = join(directories[i], file);
+        const info = await stat(join(CONFIG.artifactsDir, path)).catch(() => null);
+        if (!info?.isFile()) continue;
+
+        artifacts.push({ name: `${prefix}${file}`, path, size: info.size, type: this.artifactType(file) });
+      }
+    }
+
+    // Combined trace of a multi-sample run lives next to the run metadata
+    if (run.artifacts.trace?.startsWith('runs/')) {
+      const info = await stat(join(CONFIG.artifactsDir, run.artifacts.trace)).catch(() => null);
+      if (info) {
+        artifacts.push({ name: 'trace.log', path: run.artifacts.trace, size: info.size, type: 'trace' });
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Absolute path of a listed artifact, or null. Only names returned by
+   * listArtifacts resolve, so request input never becomes part of a path.
+   */
+  async getArtifactPath(id: string, name: string): Promise<string | null> {
+    const artifacts = await this.listArtifacts(id);
+    const artifact = artifacts?.find(a => a.name === name);
+    if (!artifact) return null;
+
+    const root = resolve(CONFIG.artifactsDir);
+    const filePath = resolve(root, artifact.path);
+    return filePath.startsWith(root + sep) ? filePath : null;
+  }
+
+  private artifactType(file: string): RunArtifact['type'] {
+    if (file === 'stdout.log') return 'stdout';
+    if (file === 'stderr.log') return 'stderr';
+    if (file === 'trace.log') return 'trace';
+    if (file === 'metadata.json') return 'metadata';
+    if (file.endsWith('.cpuprofile')) return 'cpuprofile';
+    return 'other';
+  }
+
+  /**
+   * Parse the run's trace output into structured events. Returns null if the
+   * run does not exist, and an empty list if it was not traced.
+   */
+  async getTraceEvents(id: string): Promise<TraceEvent[] | null> {
+    const run = await this.getRun(id);
+    if (!run) return null;
+    if (!run.artifacts.trace) return [];
+
+    try {
+      const trace = await readFile(join(CONFIG.artifactsDir, run.artifacts.trace), 'utf-8');
+      return parseTrace(trace);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Call tree of the run's CPU profile (the last sample's, for multi-sample runs).
+  // Returns null when the run does not exist or has no readable profile.
+  async getCpuProfile(id: string): Promise<ProfileTree | null> {
+    const run = await this.getRun(id);
+    if (!run?.artifacts.cpuProfile) return null;
+
+    try {
+      const profile: CpuProfile = JSON.parse(
+        await readFile(join(CONFIG.artifactsDir, run.artifacts.cpuProfile), 'utf-8')
+      );
+      return parseCpuProfile(profile, run.experiment);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Trace output of all samples, stored next to the run metadata.
+  // Returns the path relative to the artifacts directory.
+  private async saveTrace(id: string, trace: string): Promise<string> {
     const runsDir = join(CONFIG.artifactsDir, 'runs');
     await mkdir(runsDir, { recursive: true });
 
-    const filePath = join(runsDir, `${metadata.id}.json`);
-    await writeFile(filePath, JSON.stringify(metadata, null, 2), 'utf-8');
+    await writeFile(join(runsDir, `${id}.trace.log`), trace, 'utf-8');
+    return `runs/${id}.trace.log`;
+  }
+
+  private async saveMetadata(metadata: RunMetadata) {
+    await runRepository.save(metadata);
+  }
+
+  // The currently executing run is not part of the saved queue: after a
+  // crash it is reported as interrupted rather than started again
+  private async persistQueue() {
+    await runRepository.saveQueue(this.queue.map(run => run.id));
+    this.emit('queue:change');
   }
 
   getQueueStatus() {
     return {
       queueLength: this.queue.length,
-      currentRun: this.currentRun?.id || null,
-      processing: this.processing,
+      queued: this.queue.map(run => run.id),
+      concurrency: CONFIG.runConcurrency,
+      workers: [...this.workers.values()]
+        .sort((a, b) => a.slot - b.slot)
+        .map(worker => ({
+          slot: worker.slot,
+          runId: worker.run.id,
+          experiment: worker.run.metadata.experiment,
+          variant: worker.run.metadata.variant,
+          timingSensitive: worker.run.metadata.options.timingSensitive ?? true,
+          ...(worker.cpu !== undefined && { cpu: worker.cpu }),
+          startedAt: worker.startedAt,
+        })),
     };
   }
 }
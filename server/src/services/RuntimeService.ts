@@ -0,0 +1,129 @@
+import { access, readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { execa } from 'execa';
+import { CONFIG } from '../config.js';
+import { NodeRuntime, NodeRuntimeSource } from '../types.js';
+
+interface Candidate {
+  path: string;
+  source: NodeRuntimeSource;
+}
+
+// Prints [execPath, version, v8 version] of the probed binary
+const PROBE_SCRIPT = 'JSON.stringify([process.execPath, process.version, process.versions.v8])';
+const PROBE_TIMEOUT_MS = 10000;
+
+// Its engines.node is what the runner, the harness and the ESM variants need
+const ROOT_PACKAGE_JSON = fileURLToPath(new URL('../../../package.json', import.meta.url));
+
+function majorVersion(nodeVersion: string): number {
+  return parseInt(nodeVersion.replace(/^v/, ''), 10);
+}
+
+// Lowest major version engines.node allows (">=18.0.0" is 18), or 0
+async function minimumMajorVersion(): Promise<number> {
+  try {
+    const { engines } = JSON.parse(await readFile(ROOT_PACKAGE_JSON, 'utf-8'));
+    const match = /^\s*>=\s*v?(\d+)/.exec(engines?.node ?? '');
+    return match ? parseInt(match[1], 10) : 0;
+  } catch (error) {
+    return 0;
+  }
+}
+
+// Oldest first: "v18.20.8" < "v20.19.5" < "v22.20.0"
+function compareVersions(a: NodeRuntime, b: NodeRuntime): number {
+  const pa = a.nodeVersion.replace(/^v/, '').split(/[.-]/).map(part => parseInt(part, 10) || 0);
+  const pb = b.nodeVersion.replace(/^v/, '').split(/[.-]/).map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export class RuntimeService {
+  private runtimes: Promise<NodeRuntime[]> | null = null;
+
+  /**
+   * The node on PATH plus every install found under CONFIG.nodeRuntimes,
+   * oldest first. Versions older than the root package.json's engines.node
+   * are left out: they cannot run the experiments. Binaries are probed
+   * once; restart the server after installing another Node version.
+   */
+  listRuntimes(): Promise<NodeRuntime[]> {
+    if (!this.runtimes) {
+      this.runtimes = this.discover();
+    }
+    return this.runtimes;
+  }
+
+  async getRuntime(id: string): Promise<NodeRuntime | null> {
+    const runtimes = await this.listRuntimes();
+    return runtimes.find(runtime => runtime.id === id) ?? null;
+  }
+
+  private async discover(): Promise<NodeRuntime[]> {
+    const candidates: Candidate[] = [{ path: 'node', source: 'path' }];
+    for (const entry of CONFIG.nodeRuntimes) {
+      candidates.push(...await this.expand(entry));
+    }
+
+    const minimumMajor = await minimumMajorVersion();
+    const runtimes: NodeRuntime[] = [];
+    for (const candidate of candidates) {
+      const runtime = await this.probe(candidate);
+      if (!runtime || majorVersion(runtime.nodeVersion) < minimumMajor) continue;
+
+      // The node on PATH is probed first, so it wins over its own install
+      // directory; other duplicates (the same version twice) are skipped
+      if (!runtimes.some(r => r.id === runtime.id)) {
+        runtimes.push(runtime);
+      }
+    }
+
+    return runtimes.sort(compareVersions);
+  }
+
+  // A configured entry may be a node binary, one install (".../v22.20.0")
+  // or a directory of installs (".../versions/node")
+  private async expand(entry: string): Promise<Candidate[]> {
+    const info = await stat(entry).catch(() => null);
+    if (!info) return [];
+    if (info.isFile()) return [{ path: entry, source: 'binary' }];
+
+    const ownBinary = join(entry, 'bin', 'node');
+    if (await access(ownBinary).then(() => true, () => false)) {
+      return [{ path: ownBinary, source: 'directory' }];
+    }
+
+    const dirs = await readdir(entry, { withFileTypes: true }).catch(() => []);
+    return dirs
+      .filter(d => d.isDirectory())
+      .map(d => ({ path: join(entry, d.name, 'bin', 'node'), source: 'directory' as const }));
+  }
+
+  private async probe({ path, source }: Candidate): Promise<NodeRuntime | null> {
+    try {
+      const { stdout } = await execa(path, ['-p', PROBE_SCRIPT], { timeout: PROBE_TIMEOUT_MS });
+      const [execPath, nodeVersion, v8Version] = JSON.parse(stdout);
+
+      return {
+        id: nodeVersion,
+        nodeVersion,
+        v8Version,
+        path: execPath,
+        source,
+        default: source === 'path',
+      };
+    } catch (error) {
+      // Not a working node binary
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const runtimeService = new RuntimeService();
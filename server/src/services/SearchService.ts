@@ -0,0 +1,128 @@
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../config.js';
+import { SearchEntry, SearchIndex, buildIndex, searchIndex, splitSections } from '../search.js';
+import { SearchQuery, SearchResult } from '../types.js';
+import { DocsService, GLOSSARY_SLUG } from './DocsService.js';
+import { ExperimentsService } from './ExperimentsService.js';
+
+export class SearchService {
+  private docsService = new DocsService();
+  private experimentsService = new ExperimentsService();
+  private index: SearchIndex | null = null;
+  // Paths, modification times and sizes of the files the index was built from
+  private signature = '';
+  private building: Promise<SearchIndex> | null = null;
+
+  async search(query: SearchQuery): Promise<SearchResult> {
+    const index = await this.currentIndex();
+    const { total, hits } = searchIndex(index, query.q, query);
+    return { query: query.q, total, hits };
+  }
+
+  // The index, rebuilt first if a file was added, removed or changed
+  private async currentIndex(): Promise<SearchIndex> {
+    const files = await this.indexedFiles();
+    const stats = await Promise.all(files.map(file => stat(file).catch(() => null)));
+    const signature = files
+      .map((file, i) => `${file}:${stats[i]?.mtimeMs}:${stats[i]?.size}`)
+      .join('\n');
+
+    if (this.index && signature === this.signature) {
+      return this.index;
+    }
+
+    // Searches arriving during a rebuild wait for the same one
+    if (!this.building) {
+      this.building = this.build()
+        .then(index => {
+          this.index = index;
+          this.signature = signature;
+          return index;
+        })
+        .finally(() => {
+          this.building = null;
+        });
+    }
+    return this.building;
+  }
+
+  // Docs, experiment READMEs and variants
+  private async indexedFiles(): Promise<string[]> {
+    const files = (await readdir(CONFIG.docsDir))
+      .filter(file => file.endsWith('.md'))
+      .map(file => join(CONFIG.docsDir, file));
+
+    const dirs = (await readdir(CONFIG.experimentsDir, { withFileTypes: true }))
+      .filter(d => d.isDirectory() && !d.name.startsWith('_'));
+    for (const dir of dirs) {
+      const expDir = join(CONFIG.experimentsDir, dir.name);
+      for (const file of await readdir(expDir).catch(() => [] as string[])) {
+        if (file === 'README.md' || file.endsWith('.js')) {
+          files.push(join(expDir, file));
+        }
+      }
+    }
+
+    return files.sort();
+  }
+
+  private async build(): Promise<SearchIndex> {
+    const entries: SearchEntry[] = [];
+
+    for (const { slug } of await this.docsService.listDocs()) {
+      const doc = await this.docsService.getDoc(slug);
+      if (!doc) continue;
+
+      for (const section of splitSections(doc.content)) {
+        entries.push({
+          // Every ### heading of the glossary is a term
+          kind: slug === GLOSSARY_SLUG && section.level === 3 ? 'glossary' : 'doc',
+          slug,
+          title: doc.metadata.title,
+          heading: section.heading,
+          anchor: section.anchor,
+          url: section.anchor ? `/docs/${slug}#${section.anchor}` : `/docs/${slug}`,
+          text: section.text,
+        });
+      }
+    }
+
+    for (const { slug } of await this.experimentsService.listExperiments()) {
+      const experiment = await this.experimentsService.getExperiment(slug);
+      if (!experiment) continue;
+      const { metadata, readme } = experiment;
+
+      for (const section of splitSections(readme)) {
+        entries.push({
+          kind: 'experiment',
+          slug,
+          title: metadata.name,
+          heading: section.heading,
+          anchor: section.anchor,
+          url: section.anchor ? `/experiments/${slug}#${section.anchor}` : `/experiments/${slug}`,
+          text: section.text,
+        });
+      }
+
+      for (const variant of metadata.variants) {
+        const source = await this.experimentsService.getSource(slug, variant);
+        if (source === null) continue;
+
+        entries.push({
+          kind: 'source',
+          slug,
+          title: metadata.name,
+          variant,
+          url: `/experiments/${slug}?variant=${variant}`,
+          text: source,
+        });
+      }
+    }
+
+    return buildIndex(entries);
+  }
+}
+
+// Singleton instance
+export const searchService = new SearchService();
@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile, readFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../config.js';
+import {
+  ExperimentMetadata,
+  ExperimentVerification,
+  RunMetadata,
+  VariantMeasurement,
+  VerificationReport,
+} from '../types.js';
+import { runOptionsSchema } from '../validation.js';
+import { evaluateExpectation, overallStatus, requiredRuns } from '../expectations.js';
+import { summarizeTrace } from '../traceParser.js';
+import { ExperimentsService } from './ExperimentsService.js';
+import { RunService, runService } from './RunService.js';
+
+// Samples per timing run; expectations compare their means
+const TIMING_SAMPLES = 5;
+
+interface PendingExperiment {
+  experiment: ExperimentMetadata;
+  // Run ids by variant
+  timing: Record<string, string>;
+  traced: Record<string, string>;
+}
+
+function toMeasurement(run: RunMetadata | null): VariantMeasurement {
+  if (!run) return { error: 'run not found' };
+  if (run.status !== 'completed') return { error: `run ${run.status}` };
+
+  const ci = run.results?.statistics?.ci;
+  return {
+    nsPerOp: run.results?.nsPerOp,
+    ...(ci && { ci: { lower: ci.lower, upper: ci.upper } }),
+    deoptCount: run.results?.deoptCount,
+  };
+}
+
+export class VerifyService {
+  private experimentsService = new ExperimentsService();
+
+  constructor(private runs: RunService) {}
+
+  /**
+   * Queue the runs needed to check every experiment's expectations and
+   * return the report right away; it is completed in the background.
+   * Returns null if a requested experiment does not exist.
+   */
+  async startVerification(only?: string[]): Promise<VerificationReport | null> {
+    const started = await this.start(only);
+    if (!started) return null;
+
+    started.completed.catch(error => {
+      console.error(`Error completing verification ${started.report.id}:`, error);
+    });
+    return started.report;
+  }
+
+  /**
+   * Like startVerification, but resolves with the completed report.
+   * onExperiment is called as each experiment's results come in.
+   */
+  async runVerification(
+    only?: string[],
+    onExperiment?: (verification: ExperimentVerification) => void
+  ): Promise<VerificationReport | null> {
+    const started = await this.start(only, onExperiment);
+    if (!started) return null;
+
+    await started.completed;
+    return started.report;
+  }
+
+  private async start(
+    only?: string[],
+    onExperiment?: (verification: ExperimentVerification) => void
+  ): Promise<{ report: VerificationReport; completed: Promise<void> } | null> {
+    const all = await this.experimentsService.listExperiments();
+    if (only?.some(slug => !all.some(exp => exp.slug === slug))) return null;
+
+    const experiments = all.filter(exp =>
+      exp.expectations.length > 0 && (!only || only.includes(exp.slug))
+    );
+
+    const report: VerificationReport = {
+      id: randomUUID(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      nodeVersion: process.version,
+      v8Version: process.versions.v8,
+      experiments: [],
+      summary: { pass: 0, fail: 0, error: 0 },
+    };
+
+    const pending: PendingExperiment[] = [];
+    for (const experiment of experiments) {
+      pending.push(await this.queueRuns(experiment));
+    }
+
+    await this.saveReport(report);
+    return { report, completed: this.complete(report, pending, onExperiment) };
+  }
+
+  async getReport(id: string): Promise<VerificationReport | null> {
+    const filePath = join(CONFIG.artifactsDir, 'verifications', `${id}.json`);
+
+    try {
+      const content = await readFile(filePath, 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async queueRuns(experiment: ExperimentMetadata): Promise<PendingExperiment> {
+    const { timing, traced } = requiredRuns(experiment.expectations);
+    const options = (variant: string, trace: boolean) => ({
+      ...runOptionsSchema.parse({ exp: experiment.slug, variant, samples: trace ? 1 : TIMING_SAMPLES }),
+      trace,
+      // Timing runs execute alone; traced runs only count deopts
+      timingSensitive: !trace,
+    });
+
+    const timingIds = await this.runs.createRunGroup(timing.map(variant => options(variant, false)));
+    const tracedIds = await this.runs.createRunGroup(traced.map(variant => options(variant, true)));
+
+    return {
+      experiment,
+      timing: Object.fromEntries(timing.map((variant, i) => [variant, timingIds[i]])),
+      traced: Object.fromEntries(traced.map((variant, i) => [variant, tracedIds[i]])),
+    };
+  }
+
+  private async complete(
+    report: VerificationReport,
+    pending: PendingExperiment[],
+    onExperiment?: (verification: ExperimentVerification) => void
+  ) {
+    for (const { experiment, timing, traced } of pending) {
+      const timingResults: Record<string, VariantMeasurement> = {};
+      const tracedResults: Record<string, VariantMeasurement> = {};
+
+      for (const [variant, runId] of Object.entries(timing)) {
+        timingResults[variant] = toMeasurement(await this.runs.waitForRun(runId));
+      }
+      for (const [variant, runId] of Object.entries(traced)) {
+        tracedResults[variant] = await this.tracedMeasurement(runId);
+      }
+
+      const results = experiment.expectations.map(expectation =>
+        evaluateExpectation(expectation, timingResults, tracedResults)
+      );
+
+      const verification: ExperimentVerification = {
+        experiment: experiment.slug,
+        status: overallStatus(results),
+        results,
+        runs: {
+          ...timing,
+          ...Object.fromEntries(Object.entries(traced).map(([variant, id]) => [`${variant}:trace`, id])),
+        },
+      };
+
+      report.experiments.push(verification);
+      for (const result of results) {
+        report.summary[result.status]++;
+      }
+      // Partial reports are visible while the remaining runs execute
+      await this.saveReport(report);
+      onExperiment?.(verification);
+    }
+
+    report.status = 'completed';
+    report.completedAt = new Date().toISOString();
+    await this.saveReport(report);
+  }
+
+  // Deopt counts per function come from the trace, not the run results
+  private async tracedMeasurement(runId: string): Promise<VariantMeasurement> {
+    const measurement = toMeasurement(await this.runs.waitForRun(runId));
+    if (measurement.error) return measurement;
+
+    const events = await this.runs.getTraceEvents(runId);
+    return { ...measurement, deoptsByFunction: summarizeTrace(events ?? []).deoptsByFunction };
+  }
+
+  private async saveReport(report: VerificationReport) {
+    const verificationsDir = join(CONFIG.artifactsDir, 'verifications');
+    await mkdir(verificationsDir, { recursive: true });
+
+    const filePath = join(verificationsDir, `${report.id}.json`);
+    await writeFile(filePath, JSON.stringify(report, null, 2), 'utf-8');
+  }
+}
+
+// Singleton instance
+export const verifyService = new VerifyService(runService);
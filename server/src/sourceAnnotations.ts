@@ -0,0 +1,91 @@
+import { SourceAnnotation, TraceEvent } from './types.js';
+
+/**
+ * Maps trace events onto the lines of one source file.
+ *
+ * Deopts carry the source position V8 printed with --trace-deopt-verbose
+ * ("deoptimize at <file:line:column>"); deopts without one, or in another
+ * file (the harness, inlined callees), are left out. Optimizations have no
+ * position in the trace, so they go to the line declaring a function of
+ * that name, if the file has one.
+ */
+export function annotateSource(source: string, file: string, events: TraceEvent[]): SourceAnnotation[] {
+  const lines = source.split('\n');
+  const declarations = new Map<string, number | null>();
+  const annotations = new Map<string, SourceAnnotation>();
+
+  const declarationLine = (name: string) => {
+    if (!declarations.has(name)) {
+      declarations.set(name, findDeclaration(lines, name));
+    }
+    return declarations.get(name) ?? null;
+  };
+
+  for (const event of events) {
+    if (event.type !== 'deopt' && event.type !== 'optimized' && event.type !== 'aborted') continue;
+
+    let line: number | null;
+    let column: number | undefined;
+
+    if (event.type === 'deopt') {
+      if (!event.sourcePosition || !isSameFile(event.sourcePosition.file, file)) continue;
+      line = event.sourcePosition.line;
+      column = event.sourcePosition.column;
+    } else {
+      line = declarationLine(event.functionName);
+    }
+
+    if (line === null || line < 1 || line > lines.length) continue;
+
+    const key = [line, event.type, event.functionName, event.tier, event.reason, event.deoptKind].join('\0');
+    const existing = annotations.get(key);
+    if (existing) {
+      existing.count++;
+      continue;
+    }
+
+    annotations.set(key, {
+      line,
+      ...(column !== undefined && { column }),
+      type: event.type,
+      functionName: event.functionName,
+      ...(event.tier && { tier: event.tier }),
+      ...(event.reason && { reason: event.reason }),
+      ...(event.deoptKind && { deoptKind: event.deoptKind }),
+      count: 1,
+    });
+  }
+
+  return [...annotations.values()].sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+}
+
+// V8 prints absolute paths, or file:// URLs for ES modules; `file` is the
+// path below the experiments directory ("01-hidden-classes/deopt.js")
+function isSameFile(traced: string, file: string): boolean {
+  const path = traced.replace(/^file:\/\//, '');
+  return path === file || path.endsWith(`/${file}`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 1-based line of `function name(`, `name = (...) =>`, `name(...) {` and
+// the like, or null
+function findDeclaration(lines: string[], name: string): number | null {
+  if (!/^[\w$]+$/.test(name)) return null;
+
+  const id = escapeRegExp(name);
+  const patterns = [
+    new RegExp(`\\bfunction\\s*\\*?\\s*${id}\\s*\\(`),
+    new RegExp(`\\bclass\\s+${id}\\b`),
+    new RegExp(`(?:^|[^\\w$.])${id}\\s*[:=]\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*=>|[\\w$]+\\s*=>)`),
+    new RegExp(`^\\s*(?:(?:static|async|get|set)\\s+)*${id}\\s*\\([^)]*\\)\\s*\\{`),
+  ];
+
+  for (const pattern of patterns) {
+    const index = lines.findIndex(line => pattern.test(line));
+    if (index !== -1) return index + 1;
+  }
+  return null;
+}
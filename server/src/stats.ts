@@ -0,0 +1,81 @@
+import { SampleStatistics } from './types.js';
+
+const BOOTSTRAP_RESAMPLES = 1000;
+const CONFIDENCE_LEVEL = 0.95;
+
+/**
+ * Percentile of an already sorted array, with linear interpolation
+ * between the two closest ranks.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  if (sorted.length === 1) return sorted[0];
+
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function stddev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Percentile bootstrap confidence interval for the mean.
+ */
+export function bootstrapMeanCI(
+  values: number[],
+  level = CONFIDENCE_LEVEL,
+  resamples = BOOTSTRAP_RESAMPLES
+): { lower: number; upper: number } {
+  if (values.length < 2) {
+    return { lower: values[0] ?? NaN, upper: values[0] ?? NaN };
+  }
+
+  const means: number[] = new Array(resamples);
+  for (let r = 0; r < resamples; r++) {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[Math.floor(Math.random() * values.length)];
+    }
+    means[r] = sum / values.length;
+  }
+  means.sort((a, b) => a - b);
+
+  const alpha = (1 - level) / 2;
+  return {
+    lower: percentile(means, alpha),
+    upper: percentile(means, 1 - alpha),
+  };
+}
+
+export function summarizeSamples(values: number[]): SampleStatistics {
+  const sorted = [...values].sort((a, b) => a - b);
+  const ci = bootstrapMeanCI(values);
+
+  return {
+    count: values.length,
+    mean: mean(values),
+    median: percentile(sorted, 0.5),
+    stddev: stddev(values),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p95: percentile(sorted, 0.95),
+    ci: {
+      level: CONFIDENCE_LEVEL,
+      lower: ci.lower,
+      upper: ci.upper,
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import { DeoptKind, OptimizationTier, TraceEvent, TraceSummary } from './types.js';
+
+/**
+ * Parser for V8 --trace-opt / --trace-deopt output.
+ *
+ * Handles the formats printed by the V8 versions shipped with Node 18-22:
+ *
+ *   [marking 0x... <JSFunction foo (sfi = 0x...)> for optimization to TURBOFAN, ..., reason: hot and stable]
+ *   [compiling method 0x... <JSFunction foo (sfi = 0x...)> (target MAGLEV) OSR, mode: ...]
+ *   [completed optimizing 0x... <JSFunction foo (sfi = 0x...)> (target TURBOFAN)]
+ *   [optimizing 0x... <JSFunction foo (sfi = 0x...)> (target TURBOFAN) - took 0.1, 2.0, 0.1 ms]
+ *   [bailout (kind: deopt-eager, reason: wrong map): begin. deoptimizing 0x... <JSFunction foo ...>, ..., bytecode offset 12, ...]
+ *   [deoptimizing (DEOPT soft): begin 0x... <JSFunction foo (sfi = 0x...)> (opt #1) @3, ...]
+ *               ;;; deoptimize at <file:///path/deopt.js:46:30>, wrong map
+ *   [aborted optimizing 0x... <JSFunction foo (sfi = 0x...)> (target TURBOFAN) because: Function too large]
+ *
+ * The parser is line based and never throws; lines it does not recognise
+ * are skipped.
+ */
+
+const FUNCTION_RE = /<JSFunction ([^\s>]*)/;
+const SFI_RE = /\(sfi = (0x[0-9a-f]+)\)/;
+const TIER_RE = /(?:target|to) (TURBOFAN|MAGLEV|SPARKPLUG)/;
+const REASON_RE = /reason: ([^\]]+?)\]?$/;
+const BAILOUT_RE = /\[bailout \(kind: deopt-(\w+), reason: ([^)]*)\)/;
+const LEGACY_DEOPT_RE = /\[deoptimizing \(DEOPT (\w+)\)/;
+const BYTECODE_OFFSET_RE = /bytecode offset (\d+)/;
+const DEOPT_AT_RE = /;;; deoptimize at <(.+):(\d+):(\d+)>(?:, (.+))?/;
+const ABORT_RE = /because: (.+?)\]?$/;
+
+const TIER_NAMES: Record<string, OptimizationTier> = {
+  TURBOFAN: 'TurboFan',
+  MAGLEV: 'Maglev',
+  SPARKPLUG: 'Sparkplug',
+};
+
+function parseFunctionName(line: string): string {
+  const match = line.match(FUNCTION_RE);
+  if (!match) return '(unknown)';
+  // Anonymous functions print as "<JSFunction (sfi = ...)>"
+  return match[1] || '(anonymous)';
+}
+
+// Name and shared function info address, which tells apart functions
+// with the same name and stays put when V8 recreates the closure
+function parseFunction(line: string): Pick<TraceEvent, 'functionName' | 'sfi'> {
+  const sfi = line.match(SFI_RE)?.[1];
+  return { functionName: parseFunctionName(line), ...(sfi && { sfi }) };
+}
+
+function parseTier(line: string): OptimizationTier | undefined {
+  const match = line.match(TIER_RE);
+  return match ? TIER_NAMES[match[1]] : undefined;
+}
+
+function parseDeoptKind(kind: string): DeoptKind {
+  const normalized = kind.toLowerCase();
+  if (normalized === 'eager' || normalized === 'lazy' || normalized === 'soft') {
+    return normalized;
+  }
+  return 'unknown';
+}
+
+function tierFromCode(line: string): OptimizationTier | undefined {
+  const match = line.match(/<Code (TURBOFAN|MAGLEV)/);
+  return match ? TIER_NAMES[match[1]] : undefined;
+}
+
+export function parseTrace(trace: string): TraceEvent[] {
+  const events: TraceEvent[] = [];
+  const lines = trace.split('\n');
+  let lastDeopt: TraceEvent | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const line = raw.trim();
+    if (!line) continue;
+
+    const base = { seq: events.length, line: i + 1, raw: line };
+
+    if (line.startsWith('[marking') && line.includes('for optimization')) {
+      events.push({
+        ...base,
+        type: 'marked',
+        ...parseFunction(line),
+        tier: parseTier(line),
+        reason: line.match(REASON_RE)?.[1],
+      });
+      continue;
+    }
+
+    if (line.startsWith('[compiling method')) {
+      events.push({
+        ...base,
+        type: 'compiling',
+        ...parseFunction(line),
+        tier: parseTier(line),
+        osr: line.includes(' OSR'),
+      });
+      continue;
+    }
+
+    // Node 18 prints "[optimizing ... - took" once compilation finished;
+    // newer versions print "[completed optimizing ...]"
+    if (line.startsWith('[completed optimizing') || (line.startsWith('[optimizing') && line.includes(' - took'))) {
+      events.push({
+        ...base,
+        type: 'optimized',
+        ...parseFunction(line),
+        tier: parseTier(line),
+        osr: line.includes(' OSR'),
+      });
+      continue;
+    }
+
+    if (line.startsWith('[aborted optimizing') || line.startsWith('[disabled optimization')) {
+      events.push({
+        ...base,
+        type: 'aborted',
+        ...parseFunction(line),
+        tier: parseTier(line),
+        reason: line.match(ABORT_RE)?.[1] ?? line.match(REASON_RE)?.[1],
+      });
+      continue;
+    }
+
+    const bailout = line.match(BAILOUT_RE);
+    if (bailout) {
+      const offset = line.match(BYTECODE_OFFSET_RE);
+      lastDeopt = {
+        ...base,
+        type: 'deopt',
+        ...parseFunction(line),
+        tier: tierFromCode(line),
+        deoptKind: parseDeoptKind(bailout[1]),
+        reason: bailout[2],
+        bytecodeOffset: offset ? parseInt(offset[1], 10) : undefined,
+      };
+      events.push(lastDeopt);
+      continue;
+    }
+
+    const legacy = line.match(LEGACY_DEOPT_RE);
+    if (legacy) {
+      lastDeopt = {
+        ...base,
+        type: 'deopt',
+        ...parseFunction(line),
+        deoptKind: parseDeoptKind(legacy[1]),
+        reason: line.match(/Reason: ([^\]]+)/)?.[1],
+      };
+      events.push(lastDeopt);
+      continue;
+    }
+
+    // Source position line belongs to the deopt printed just before it
+    const deoptAt = line.match(DEOPT_AT_RE);
+    if (deoptAt) {
+      if (lastDeopt && !lastDeopt.sourcePosition) {
+        lastDeopt.sourcePosition = {
+          file: deoptAt[1],
+          line: parseInt(deoptAt[2], 10),
+          column: parseInt(deoptAt[3], 10),
+        };
+        if (!lastDeopt.reason && deoptAt[4]) {
+          lastDeopt.reason = deoptAt[4];
+        }
+      }
+    }
+  }
+
+  return events;
+}
+
+export function summarizeTrace(events: TraceEvent[]): TraceSummary {
+  const optimized = new Set<string>();
+  const deoptReasons: Record<string, number> = {};
+  const deoptsByFunction: Record<string, number> = {};
+  let deopts = 0;
+
+  for (const event of events) {
+    if (event.type === 'optimized') {
+      optimized.add(event.functionName);
+    }
+
+    if (event.type === 'deopt') {
+      deopts++;
+      const reason = event.reason || 'Unknown';
+      deoptReasons[reason] = (deoptReasons[reason] || 0) + 1;
+      deoptsByFunction[event.functionName] = (deoptsByFunction[event.functionName] || 0) + 1;
+    }
+  }
+
+  return {
+    optimizedFunctions: [...optimized],
+    optimizations: events.filter(e => e.type === 'optimized').length,
+    deopts,
+    deoptReasons,
+    deoptsByFunction,
+  };
+}
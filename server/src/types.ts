@@ -5,18 +5,185 @@ export interface DocMetadata {
   description?: string;
 }
 
+// A ## heading of a doc with its ### headings
+export interface DocHeading {
+  depth: number;
+  text: string;
+  // Heading id in the rendered page, GitHub style
+  anchor: string;
+  children: DocHeading[];
+}
+
+// An experiment that demonstrates what a doc explains
+export interface DocExperiment {
+  slug: string;
+  name: string;
+  description: string;
+  difficulty?: Difficulty;
+  // Listed in its manifest's relatedDocs, linked from its README, or both
+  via: ('manifest' | 'readme')[];
+}
+
+/**
+ * Response of GET /api/docs/:slug
+ */
+export interface DocDetails {
+  metadata: DocMetadata;
+  content: string;
+  toc: DocHeading[];
+  readingMinutes: number;
+  // Neighbours in the numbered reading order
+  prev: DocMetadata | null;
+  next: DocMetadata | null;
+  experiments: DocExperiment[];
+}
+
+/**
+ * A term of docs/06-glossary.md, parsed by glossary.ts
+ */
+export interface GlossaryEntry {
+  // Unique; the heading id of the term, e.g. "inline-cache-ic"
+  id: string;
+  term: string;
+  // Other names from the heading or the abbreviations list, e.g. "IC"
+  aliases: string[];
+  // The ## section the term is listed under
+  category: string;
+  // Markdown
+  definition: string;
+  // Plain text of the definition, shortened for hover cards
+  summary: string;
+  // Page in the web UI
+  url: string;
+}
+
+// Payload of content:changed: slugs whose files were edited, added or removed
+export interface ContentChange {
+  docs: string[];
+  experiments: string[];
+}
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
 export interface ExperimentMetadata {
   id: string;
   slug: string;
   name: string;
   description: string;
   variants: string[];
+  // The rest comes from the README frontmatter, see manifest.ts
   tags: string[];
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  difficulty?: Difficulty;
+  concepts: string[];
+  // Experiment slugs
+  prerequisites: string[];
+  // Doc slugs
+  relatedDocs: string[];
+  outcomes: string[];
   readmePath: string;
+  // See expectations.ts
+  expectations: Expectation[];
+}
+
+/**
+ * README frontmatter of an experiment, validated by manifest.ts
+ */
+export interface ExperimentManifest {
+  title: string;
+  description: string;
+  tags: string[];
+  difficulty: Difficulty;
+  concepts: string[];
+  prerequisites: string[];
+  relatedDocs: string[];
+  outcomes: string[];
+  expectations: Expectation[];
+}
+
+export interface ManifestIssue {
+  // Dotted path into the frontmatter, e.g. "expectations.0.factor"
+  path: string;
+  message: string;
+}
+
+// Result of GET /api/experiments/lint for one experiment
+export interface ExperimentLint {
+  slug: string;
+  issues: ManifestIssue[];
+}
+
+// Filters for GET /api/experiments
+export interface ExperimentQuery {
+  tag?: string;
+  difficulty?: Difficulty;
+}
+
+/**
+ * Input of npm run new-exp and POST /api/experiments
+ */
+export interface NewExperiment {
+  // Title; the folder name is derived from it
+  name: string;
+  description?: string;
+  tags: string[];
+  difficulty: Difficulty;
+}
+
+/**
+ * What an experiment is supposed to show, checked by npm run verify and
+ * POST /api/verify
+ */
+export type Expectation =
+  // variant's ns/op is at least `factor` times slowerThan's
+  | { variant: string; slowerThan: string; factor: number }
+  // deopt counts cover every function unless `function` names one
+  | { variant: string; maxDeopts: number; function?: string }
+  | { variant: string; minDeopts: number; function?: string };
+
+// Result of one variant run, as far as expectations care
+export interface VariantMeasurement {
+  // Mean over the samples of the run
+  nsPerOp?: number;
+  ci?: { lower: number; upper: number };
+  deoptCount?: number;
+  deoptsByFunction?: Record<string, number>;
+  // Set when the run failed or reported nothing
+  error?: string;
+}
+
+export type ExpectationStatus = 'pass' | 'fail' | 'error';
+
+export interface ExpectationResult {
+  description: string;
+  status: ExpectationStatus;
+  // Speedup ratio or deopt count
+  actual?: number;
+  message: string;
+}
+
+export interface ExperimentVerification {
+  experiment: string;
+  status: ExpectationStatus;
+  results: ExpectationResult[];
+  // Run ids keyed by variant, "<variant>:trace" for deopt-counting runs
+  runs: Record<string, string>;
+}
+
+export interface VerificationReport {
+  id: string;
+  status: 'running' | 'completed';
+  startedAt: string;
+  completedAt?: string;
+  nodeVersion: string;
+  v8Version: string;
+  experiments: ExperimentVerification[];
+  summary: Record<ExpectationStatus, number>;
 }
 
-export type RunStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// interrupted: the server stopped while the run was executing
+export type RunFailureReason = 'error' | 'timeout' | 'interrupted';
 
 export interface RunOptions {
   exp: string;
@@ -25,38 +192,510 @@ export interface RunOptions {
   profile: boolean;
   warmup: number;
   repeat: number;
+  samples: number;
+  v8Flags: string[];
+  // Timing-sensitive runs execute alone (and pinned to one CPU where
+  // possible). Defaults to true unless the run traces or profiles.
+  timingSensitive?: boolean;
+  // NodeRuntime id; the node on PATH when omitted
+  runtime?: string;
+}
+
+// path: the node on PATH, directory: found in a configured directory of
+// installs (nvm, volta), binary: a configured node binary
+export type NodeRuntimeSource = 'path' | 'directory' | 'binary';
+
+/**
+ * A local Node installation runs can target, see RuntimeService
+ */
+export interface NodeRuntime {
+  // The Node version ("v22.20.0"), unique across runtimes
+  id: string;
+  nodeVersion: string;
+  v8Version: string;
+  // Absolute path of the node binary
+  path: string;
+  source: NodeRuntimeSource;
+  // The node on PATH, which runs use unless they name a runtime
+  default: boolean;
+}
+
+export interface V8FlagDefinition {
+  name: string;
+  description: string;
+  // Flags with a value are passed as --name=value
+  value?: 'integer';
+}
+
+export interface V8FlagPreset {
+  id: string;
+  name: string;
+  description: string;
+  flags: string[];
+}
+
+/**
+ * Machine-readable measurement reported by experiments/_shared/harness.js
+ */
+export interface BenchmarkMeasurement {
+  variant: string;
+  warmup: number;
+  iterations: number;
+  timeMs: number;
+  nsPerOp: number;
+  sanity: string | number | boolean | null;
+  // Runtime that executed the variant, and the flags it ran with
+  nodeVersion?: string;
+  v8Version?: string;
+  execArgv?: string[];
+}
+
+/**
+ * Distribution of per-sample ns/op across independent child processes
+ */
+export interface SampleStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  stddev: number;
+  min: number;
+  max: number;
+  p95: number;
+  // Bootstrap confidence interval for the mean
+  ci: {
+    level: number;
+    lower: number;
+    upper: number;
+  };
+}
+
+export interface RunResults {
+  exitCode: number;
+  // Wall-clock time of the whole child process, including startup and warmup
+  durationMs: number;
+  // Measured loop only, as reported by the harness
+  timeMs?: number;
+  nsPerOp?: number;
+  iterations?: number;
+  warmupIterations?: number;
+  sanity?: string | number | boolean | null;
+  // One ns/op value per sample process, plus their summary
+  nsPerOpSamples?: number[];
+  statistics?: SampleStatistics;
+  // Only recorded when the run had tracing enabled
+  deoptCount?: number;
 }
 
 export interface RunMetadata {
   id: string;
   experiment: string;
   variant: string;
+  // Set when the run was queued as part of a comparison or a matrix
+  comparisonId?: string;
+  matrixId?: string;
   options: {
     trace: boolean;
     profile: boolean;
     warmup: number;
     repeat: number;
+    samples: number;
+    v8Flags: string[];
+    timingSensitive?: boolean;
+    runtime?: string;
   };
   status: RunStatus;
+  // Only set when status is 'failed'
+  failureReason?: RunFailureReason;
   timestamps: {
     queued: string;
     started?: string;
     completed?: string;
   };
+  // Node and V8 versions are the ones the experiment process reported once
+  // it ran; until then those of the selected runtime (or the server)
   environment: {
     nodeVersion: string;
     v8Version: string;
+    // Node binary of the selected runtime
+    nodePath?: string;
     platform: string;
     arch: string;
+    // Captured when the run starts; missing on runs recorded before
     gitSha?: string;
+    // Uncommitted changes in the working tree
+    gitDirty?: boolean;
+    cpuModel?: string;
+    cpuCount?: number;
+    // Bytes
+    totalMemory?: number;
+    // 1, 5 and 15 minute load averages
+    loadAverage?: number[];
+    // sha256 of the executed variant file
+    variantHash?: string;
+    // process.execArgv of the experiment process, including the flags
+    // that trace and profile add
+    effectiveFlags?: string[];
+    // Set when the run was pinned with taskset
+    pinnedCpu?: number;
   };
-  results?: {
-    exitCode: number;
-    durationMs: number;
-  };
+  results?: RunResults;
+  // Paths relative to the artifacts directory
   artifacts: {
+    // One timestamped directory per sample, as reported by run-experiment.js
+    directories?: string[];
     stdout?: string;
     stderr?: string;
+    // --trace-* output (V8 writes it to stdout and stderr); combined over
+    // all samples for multi-sample runs
+    trace?: string;
     cpuProfile?: string;
   };
 }
+
+/**
+ * Filters for GET /api/runs. Results are sorted newest first.
+ */
+export interface RunQuery {
+  experiment?: string;
+  variant?: string;
+  status?: RunStatus;
+  // Only runs queued at or after this time
+  since?: Date;
+  limit: number;
+  // Opaque, from the previous page's nextCursor
+  cursor?: string;
+}
+
+export interface RunPage {
+  runs: RunMetadata[];
+  // Number of runs matching the filters, across all pages
+  total: number;
+  nextCursor: string | null;
+}
+
+export type RunLogStream = 'stdout' | 'stderr';
+
+/**
+ * One line of a run's output, in the order it arrived across both streams.
+ */
+export interface RunLogLine {
+  // Position in the log, counting both streams
+  n: number;
+  // Milliseconds since the epoch when the line was complete
+  t: number;
+  stream: RunLogStream;
+  text: string;
+}
+
+export interface RunLogQuery {
+  stream?: RunLogStream;
+  // Line numbers; from is inclusive, to exclusive
+  from?: number;
+  to?: number;
+}
+
+export interface RunLog {
+  lines: RunLogLine[];
+  // Lines in the whole log, both streams
+  total: number;
+}
+
+export interface RunArtifact {
+  // Name used in /api/runs/:id/artifacts/:name
+  name: string;
+  // Relative to the artifacts directory
+  path: string;
+  size: number;
+  type: 'stdout' | 'stderr' | 'trace' | 'cpuprofile' | 'metadata' | 'other';
+}
+
+export type OptimizationTier = 'Sparkplug' | 'Maglev' | 'TurboFan';
+
+export type DeoptKind = 'eager' | 'lazy' | 'soft' | 'unknown';
+
+export type TraceEventType = 'marked' | 'compiling' | 'optimized' | 'aborted' | 'deopt';
+
+/**
+ * One line of --trace-opt / --trace-deopt output, see traceParser.ts
+ */
+export interface TraceEvent {
+  // Position in the event stream (timestamp order)
+  seq: number;
+  // 1-based line number in trace.log
+  line: number;
+  type: TraceEventType;
+  functionName: string;
+  // Address of the function's SharedFunctionInfo, e.g. "0x279629eecfb9"
+  sfi?: string;
+  tier?: OptimizationTier;
+  osr?: boolean;
+  // Marking reason, abort reason or deopt reason depending on type
+  reason?: string;
+  deoptKind?: DeoptKind;
+  bytecodeOffset?: number;
+  // Only present when V8 printed it (e.g. --trace-deopt-verbose)
+  sourcePosition?: {
+    file: string;
+    line: number;
+    column: number;
+  };
+  raw: string;
+}
+
+/**
+ * A line of a variant's source where the trace saw something happen:
+ * deopts at the source position V8 printed, optimizations at the
+ * declaration of the optimized function. Repeated events are folded.
+ */
+export interface SourceAnnotation {
+  // 1-based
+  line: number;
+  column?: number;
+  type: 'optimized' | 'aborted' | 'deopt';
+  functionName: string;
+  tier?: OptimizationTier;
+  reason?: string;
+  deoptKind?: DeoptKind;
+  count: number;
+}
+
+export interface VariantSource {
+  experiment: string;
+  variant: string;
+  source: string;
+  // Run the annotations come from, if one was given
+  run?: {
+    id: string;
+    traced: boolean;
+  };
+  annotations: SourceAnnotation[];
+}
+
+export interface DiffSide {
+  // 1-based
+  line: number;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side diff: the same line on both sides, a line on
+ * one side only, or a line replaced by another.
+ */
+export interface DiffRow {
+  type: 'equal' | 'removed' | 'added' | 'changed';
+  left?: DiffSide;
+  right?: DiffSide;
+}
+
+/**
+ * Latest results of a variant in the run history. ns/op and deopt count
+ * can come from different runs, since only traced runs count deopts.
+ */
+export interface VariantHistory {
+  variant: string;
+  nsPerOp?: number;
+  nsPerOpRunId?: string;
+  deoptCount?: number;
+  deoptRunId?: string;
+}
+
+export interface VariantDiff {
+  experiment: string;
+  from: VariantHistory;
+  to: VariantHistory;
+  rows: DiffRow[];
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+export type SearchKind = 'doc' | 'glossary' | 'experiment' | 'source';
+
+/**
+ * A match of GET /api/search: a section of a doc or experiment README
+ * (down to its heading), a glossary entry, or a variant's source.
+ */
+export interface SearchHit {
+  kind: SearchKind;
+  // Doc or experiment slug
+  slug: string;
+  // Title of the doc or experiment
+  title: string;
+  heading?: string;
+  // Heading id in the rendered page, GitHub style
+  anchor?: string;
+  variant?: string;
+  // 1-based line of the snippet in a variant's source
+  line?: number;
+  // Page in the web UI
+  url: string;
+  score: number;
+  snippet: string;
+  // [start, end) offsets of the matched words in the snippet
+  highlights: [number, number][];
+}
+
+export interface SearchQuery {
+  q: string;
+  kind?: SearchKind;
+  limit: number;
+}
+
+export interface SearchResult {
+  query: string;
+  total: number;
+  hits: SearchHit[];
+}
+
+export interface TraceSummary {
+  optimizedFunctions: string[];
+  optimizations: number;
+  deopts: number;
+  deoptReasons: Record<string, number>;
+  deoptsByFunction: Record<string, number>;
+}
+
+/**
+ * Raw .cpuprofile as written by node --cpu-prof (Chrome DevTools format)
+ */
+export interface CpuProfile {
+  nodes: Array<{
+    id: number;
+    callFrame: {
+      functionName: string;
+      scriptId: string;
+      url: string;
+      // 0-based, -1 for native frames
+      lineNumber: number;
+      columnNumber: number;
+    };
+    hitCount?: number;
+    children?: number[];
+  }>;
+  // Microseconds
+  startTime: number;
+  endTime: number;
+  samples: number[];
+  timeDeltas: number[];
+}
+
+// experiment: the experiment's own source files, node: node:* internals,
+// v8: frames without a script such as (program) or (garbage collector)
+export type ProfileFrameCategory = 'experiment' | 'node' | 'v8' | 'other';
+
+/**
+ * Call tree node built from a .cpuprofile, see cpuProfile.ts
+ */
+export interface ProfileNode {
+  id: number;
+  functionName: string;
+  url: string;
+  // 1-based, omitted for native frames
+  line?: number;
+  column?: number;
+  category: ProfileFrameCategory;
+  // Milliseconds
+  selfTime: number;
+  totalTime: number;
+  children: ProfileNode[];
+}
+
+export interface ProfileFunction {
+  functionName: string;
+  url: string;
+  line?: number;
+  category: ProfileFrameCategory;
+  selfTime: number;
+  totalTime: number;
+}
+
+export interface ProfileTree {
+  root: ProfileNode;
+  // Milliseconds
+  totalTime: number;
+  sampleCount: number;
+  // Functions with the most self time, merged across call sites
+  hotFunctions: ProfileFunction[];
+}
+
+export type SignificanceVerdict = 'significant' | 'not-significant' | 'insufficient-data';
+
+export interface ComparisonMetadata {
+  id: string;
+  experiment: string;
+  options: {
+    trace: boolean;
+    profile: boolean;
+    warmup: number;
+    repeat: number;
+    samples: number;
+    v8Flags: string[];
+    runtime?: string;
+  };
+  // Variant name -> run id
+  runs: Record<string, string>;
+  createdAt: string;
+}
+
+export interface VariantComparison {
+  variant: string;
+  runId: string;
+  status: RunStatus;
+  nsPerOp?: number;
+  ci?: SampleStatistics['ci'];
+  deoptCount: number | null;
+}
+
+export interface SpeedupRatio {
+  // e.g. "deopt/baseline": how many times slower deopt is than baseline
+  label: string;
+  numerator: string;
+  denominator: string;
+  ratio: number | null;
+  verdict: SignificanceVerdict;
+}
+
+export interface ComparisonResult extends ComparisonMetadata {
+  status: RunStatus;
+  variants: VariantComparison[];
+  ratios: SpeedupRatio[];
+}
+
+/**
+ * One experiment variant run on several Node runtimes
+ */
+export interface MatrixMetadata {
+  id: string;
+  experiment: string;
+  variant: string;
+  options: {
+    trace: boolean;
+    profile: boolean;
+    warmup: number;
+    repeat: number;
+    samples: number;
+    v8Flags: string[];
+  };
+  // Runtime id -> run id, oldest Node version first
+  runs: Record<string, string>;
+  createdAt: string;
+}
+
+export interface MatrixEntry {
+  runtime: string;
+  runId: string;
+  status: RunStatus;
+  // As reported by the experiment process once the run completed
+  nodeVersion: string;
+  v8Version: string;
+  nsPerOp?: number;
+  ci?: SampleStatistics['ci'];
+  deoptCount: number | null;
+}
+
+export interface MatrixResult extends MatrixMetadata {
+  status: RunStatus;
+  entries: MatrixEntry[];
+}
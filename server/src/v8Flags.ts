@@ -0,0 +1,86 @@
+import { V8FlagDefinition, V8FlagPreset } from './types.js';
+
+/**
+ * V8 flags a run may pass to the experiment process. Anything not listed
+ * here is rejected by runOptionsSchema.
+ */
+export const V8_FLAGS: V8FlagDefinition[] = [
+  { name: '--trace-opt', description: 'Log functions as they are marked and optimized' },
+  { name: '--trace-deopt', description: 'Log deoptimizations with their reason' },
+  { name: '--trace-deopt-verbose', description: 'Deopts with source positions and frame translation' },
+  { name: '--trace-ic', description: 'Log inline cache state transitions (written to the V8 log)' },
+  { name: '--trace-maps', description: 'Log hidden class (map) creation and transitions' },
+  { name: '--trace-gc', description: 'One line per garbage collection' },
+  { name: '--trace-gc-verbose', description: 'Detailed heap statistics per garbage collection' },
+  { name: '--trace-turbo-inlining', description: 'Log TurboFan inlining decisions' },
+  { name: '--no-opt', description: 'Disable the optimizing compilers' },
+  { name: '--no-maglev', description: 'Disable the Maglev mid-tier compiler' },
+  { name: '--no-sparkplug', description: 'Disable the Sparkplug baseline compiler' },
+  { name: '--jitless', description: 'Interpreter only, no executable memory at all' },
+  { name: '--allow-natives-syntax', description: 'Enable %OptimizeFunctionOnNextCall and friends' },
+  { name: '--max-inlined-bytecode-size', description: 'Largest function TurboFan will inline (bytes)', value: 'integer' },
+  { name: '--max-inlined-bytecode-size-cumulative', description: 'Inlining budget per function (bytes)', value: 'integer' },
+  { name: '--max-old-space-size', description: 'Old generation size limit (MB)', value: 'integer' },
+  { name: '--max-semi-space-size', description: 'Young generation semi-space size (MB)', value: 'integer' },
+];
+
+export const V8_FLAG_PRESETS: V8FlagPreset[] = [
+  {
+    id: 'gc-tracing',
+    name: 'GC tracing',
+    description: 'See how much garbage each variant produces',
+    flags: ['--trace-gc'],
+  },
+  {
+    id: 'interpreter-only',
+    name: 'Interpreter only',
+    description: 'Run everything in Ignition to see the cost of not optimizing',
+    flags: ['--no-opt', '--no-maglev', '--no-sparkplug'],
+  },
+  {
+    id: 'jitless',
+    name: 'JIT-less',
+    description: 'No generated code at all, like a locked-down embedder',
+    flags: ['--jitless'],
+  },
+  {
+    id: 'inlining-study',
+    name: 'Inlining study',
+    description: 'Log inlining decisions with a reduced inlining size limit',
+    flags: ['--trace-turbo-inlining', '--max-inlined-bytecode-size=100'],
+  },
+  {
+    id: 'ic-and-maps',
+    name: 'ICs and maps',
+    description: 'Inline cache and hidden class transitions',
+    flags: ['--trace-ic', '--trace-maps'],
+  },
+  {
+    id: 'deopt-source-positions',
+    name: 'Deopts with source positions',
+    description: 'Verbose deopt trace, needed for per-line annotations',
+    flags: ['--trace-opt', '--trace-deopt-verbose'],
+  },
+];
+
+/**
+ * Returns an error message if the flag is not allowed, null otherwise.
+ */
+export function validateV8Flag(flag: string): string | null {
+  const [name, value] = flag.split('=', 2);
+  const definition = V8_FLAGS.find(f => f.name === name);
+
+  if (!definition) {
+    return `V8 flag not allowed: ${name}`;
+  }
+
+  if (definition.value === 'integer') {
+    if (value === undefined || !/^\d+$/.test(value)) {
+      return `${name} requires an integer value (${name}=N)`;
+    }
+  } else if (value !== undefined) {
+    return `${name} does not take a value`;
+  }
+
+  return null;
+}
@@ -1,12 +1,117 @@
 import { z } from 'zod';
+import { validateV8Flag } from './v8Flags.js';
+import { decodeCursor } from './repositories/RunRepository.js';
+import { manifestSchema } from './manifest.js';
+
+const v8FlagSchema = z.string().superRefine((flag, ctx) => {
+  const error = validateV8Flag(flag);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+// :id of comparisons, matrices and verifications (randomUUID), which
+// names a file under the artifacts directory
+export const idSchema = z.string().uuid();
+
+const runtimeIdSchema = z.string().min(1).max(50);
+
+export const variantSchema = z.enum(['baseline', 'deopt', 'fixed']);
 
 export const runOptionsSchema = z.object({
   exp: z.string().min(1).max(100).regex(/^[\w-]+$/),
-  variant: z.enum(['baseline', 'deopt', 'fixed']),
+  variant: variantSchema,
   trace: z.boolean().optional().default(false),
   profile: z.boolean().optional().default(false),
   warmup: z.number().int().min(0).max(100000).optional().default(1000),
   repeat: z.number().int().min(1).max(1000000).optional().default(100000),
+  samples: z.number().int().min(1).max(50).optional().default(1),
+  v8Flags: z.array(v8FlagSchema).max(20).optional().default([]),
+  timingSensitive: z.boolean().optional(),
+  // Id from GET /api/runtimes; routes check that it exists
+  runtime: runtimeIdSchema.optional(),
 });
 
 export type ValidatedRunOptions = z.infer<typeof runOptionsSchema>;
+
+export const comparisonOptionsSchema = runOptionsSchema.omit({ variant: true }).extend({
+  // Significance needs a confidence interval, so several samples per variant
+  samples: z.number().int().min(1).max(50).optional().default(5),
+});
+
+export type ValidatedComparisonOptions = z.infer<typeof comparisonOptionsSchema>;
+
+export const matrixOptionsSchema = runOptionsSchema.omit({ runtime: true, timingSensitive: true }).extend({
+  // Defaults to every available runtime
+  runtimes: z.array(runtimeIdSchema).min(1).max(20).optional(),
+});
+
+export type ValidatedMatrixOptions = z.infer<typeof matrixOptionsSchema>;
+
+// Query string of GET /api/runs, so numbers and dates arrive as strings
+export const runQuerySchema = z.object({
+  experiment: z.string().min(1).max(100).regex(/^[\w-]+$/).optional(),
+  variant: z.enum(['baseline', 'deopt', 'fixed']).optional(),
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  since: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  cursor: z.string().max(500).refine(cursor => decodeCursor(cursor) !== null, 'Invalid cursor').optional(),
+});
+
+// Query string of GET /api/runs/:id/log
+export const runLogQuerySchema = z.object({
+  stream: z.enum(['stdout', 'stderr']).optional(),
+  from: z.coerce.number().int().min(0).optional(),
+  to: z.coerce.number().int().min(0).optional(),
+}).refine(query => query.from === undefined || query.to === undefined || query.from <= query.to, {
+  message: 'from must not be greater than to',
+  path: ['from'],
+});
+
+// Same rules as the manifest the experiment gets, see manifest.ts
+export const newExperimentSchema = z.object({
+  name: z.string().trim().min(1).max(80).refine(name => /[a-z0-9]/i.test(name), 'Name needs a letter or digit'),
+  description: manifestSchema.shape.description,
+  tags: manifestSchema.shape.tags,
+  difficulty: manifestSchema.shape.difficulty,
+});
+
+// Query string of GET /api/experiments
+export const experimentQuerySchema = z.object({
+  tag: z.string().min(1).max(30).optional(),
+  difficulty: manifestSchema.shape.difficulty.optional(),
+});
+
+// Query string of GET /api/experiments/:slug/source/:variant
+export const sourceQuerySchema = z.object({
+  run: z.string().min(1).max(100).optional(),
+});
+
+// Query string of GET /api/search
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  kind: z.enum(['doc', 'glossary', 'experiment', 'source']).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+export const verifyOptionsSchema = z.object({
+  // Defaults to every experiment that declares expectations
+  experiments: z.array(z.string().min(1).max(100).regex(/^[\w-]+$/)).min(1).optional(),
+});
+
+// Client messages on the /api/ws run channel socket
+export const socketMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('subscribe'),
+    // "queue" or "run:<id>"
+    channel: z.string().min(1).max(100),
+    // Last sequence number the client has seen on this channel, and the
+    // epoch it was seen in
+    since: z.number().int().min(0).optional().default(0),
+    epoch: z.string().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal('unsubscribe'),
+    channel: z.string().min(1).max(100),
+  }),
+]);
@@ -0,0 +1,70 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+let root;
+let service;
+
+// Longer than the debounce, so a burst of changes has been handled
+const SETTLE_MS = 600;
+
+before(async () => {
+  // CONFIG reads the content directories on import; a relative path with a
+  // trailing slash must still match the watchers' paths
+  root = await mkdtemp(join(tmpdir(), 'v8lab-watch-'));
+  await mkdir(join(root, 'docs'));
+  await mkdir(join(root, 'experiments/01-first'), { recursive: true });
+  process.env.DOCS_DIR = join(root, 'docs');
+  process.env.EXPERIMENTS_DIR = `${relative(process.cwd(), join(root, 'experiments'))}/`;
+
+  const { ContentWatchService } = await import('../src/services/ContentWatchService.ts');
+  service = new ContentWatchService();
+  await service.start();
+});
+
+after(async () => {
+  service.stop();
+  await rm(root, { recursive: true, force: true });
+});
+
+async function changesDuring(action) {
+  const changes = [];
+  const listener = change => changes.push(change);
+  service.on('content:changed', listener);
+  await action();
+  await sleep(SETTLE_MS);
+  service.off('content:changed', listener);
+  return changes;
+}
+
+const watched = () => [...service.watchers.keys()].map(dir => relative(root, dir)).sort();
+
+test('every experiment folder is watched', () => {
+  assert.deepEqual(watched(), ['docs', 'experiments', 'experiments/01-first']);
+});
+
+test('plain files next to the experiments are not experiments', async () => {
+  const changes = await changesDuring(() => writeFile(join(root, 'experiments/notes.txt'), 'todo\n'));
+  assert.deepEqual(changes, []);
+  assert.deepEqual(watched(), ['docs', 'experiments', 'experiments/01-first']);
+});
+
+test('a new experiment folder is reported and watched', async () => {
+  const changes = await changesDuring(() => mkdir(join(root, 'experiments/02-second')));
+  assert.deepEqual(changes.flatMap(change => change.experiments), ['02-second']);
+  assert.deepEqual(watched(), ['docs', 'experiments', 'experiments/01-first', 'experiments/02-second']);
+});
+
+test('a removed experiment folder is reported and no longer watched', async () => {
+  const changes = await changesDuring(() => rm(join(root, 'experiments/01-first'), { recursive: true }));
+  assert.ok(changes.flatMap(change => change.experiments).includes('01-first'));
+  assert.deepEqual(watched(), ['docs', 'experiments', 'experiments/02-second']);
+});
+
+test('docs are reported by slug', async () => {
+  const changes = await changesDuring(() => writeFile(join(root, 'docs/01-intro.md'), '# Intro\n'));
+  assert.deepEqual(changes.flatMap(change => change.docs), ['01-intro']);
+});
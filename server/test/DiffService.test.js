@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DiffService } from '../src/services/DiffService.ts';
+
+const EXPERIMENT = '01-hidden-classes';
+
+const run = (id, fields) => ({
+  id,
+  options: { trace: false, profile: false, v8Flags: [] },
+  results: {},
+  ...fields,
+});
+
+// Endless history served a page at a time, counting the pages read per variant
+function fakeRuns(runFor) {
+  const pages = {};
+  return {
+    pages,
+    async listRuns(query) {
+      assert.equal(query.experiment, EXPERIMENT);
+      assert.equal(query.status, 'completed');
+      const page = pages[query.variant] = (pages[query.variant] ?? 0) + 1;
+      return {
+        runs: Array.from({ length: query.limit }, (_, i) => runFor(query.variant, page, i)),
+        total: Infinity,
+        nextCursor: `page-${page}`,
+      };
+    },
+  };
+}
+
+test('the latest plain measurement and deopt count come from the newest runs with them', async () => {
+  const runs = fakeRuns((variant, page, i) => {
+    const id = `${variant}-${page}-${i}`;
+    if (page === 1 && i === 0) return run(id, { options: { trace: true, profile: false }, results: { nsPerOp: 1, deoptCount: 3 } });
+    return run(id, { results: { nsPerOp: 10 } });
+  });
+
+  const diff = await new DiffService(runs).diffVariants(EXPERIMENT, 'deopt', 'fixed');
+  assert.deepEqual(diff.from, { variant: 'deopt', nsPerOp: 10, nsPerOpRunId: 'deopt-1-1', deoptCount: 3, deoptRunId: 'deopt-1-0' });
+  assert.deepEqual(runs.pages, { deopt: 1, fixed: 1 });
+  assert.ok(diff.rows.length > 0);
+});
+
+test('a variant without qualifying runs stops after a few pages', async () => {
+  const runs = fakeRuns((variant, page, i) => run(`${variant}-${page}-${i}`, { options: { trace: true, profile: false } }));
+
+  const diff = await new DiffService(runs).diffVariants(EXPERIMENT, 'deopt', 'fixed');
+  assert.deepEqual(diff.to, { variant: 'fixed' });
+  assert.deepEqual(runs.pages, { deopt: 5, fixed: 5 });
+});
+
+test('unknown variants have no diff', async () => {
+  const runs = fakeRuns(() => assert.fail('no runs needed'));
+  assert.equal(await new DiffService(runs).diffVariants(EXPERIMENT, 'deopt', 'missing'), null);
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { RunChannelService, runChannel } from '../src/services/RunChannelService.ts';
+
+// Just enough of RunService: events, stored runs and the queue status
+class FakeRuns extends EventEmitter {
+  runs = new Map();
+
+  async getRun(id) {
+    return this.runs.get(id) ?? null;
+  }
+
+  getQueueStatus() {
+    return { queueLength: 0, queued: [] };
+  }
+
+  // Run a job through start, output and completion
+  finish(id, output = []) {
+    const run = { id, status: 'completed' };
+    this.runs.set(id, run);
+    this.emit('run:start', id);
+    for (const chunk of output) this.emit('run:stdout', id, chunk);
+    this.emit('run:complete', id, run);
+  }
+}
+
+function setup() {
+  const runs = new FakeRuns();
+  return { runs, channels: new RunChannelService(runs, new EventEmitter()) };
+}
+
+async function replay(channels, channel, since, epoch) {
+  const messages = [];
+  const unsubscribe = await channels.subscribe(channel, since, message => messages.push(message), epoch);
+  unsubscribe?.();
+  return unsubscribe ? messages : null;
+}
+
+test('a subscriber gets the messages after since, then live ones', async () => {
+  const { runs, channels } = setup();
+  runs.runs.set('a', { id: 'a', status: 'running' });
+  runs.emit('run:start', 'a');
+  runs.emit('run:stdout', 'a', 'one\n');
+
+  const messages = [];
+  await channels.subscribe(runChannel('a'), 1, message => messages.push(message), channels.epoch);
+  runs.emit('run:stdout', 'a', 'two\n');
+
+  assert.deepEqual(messages.map(m => [m.seq, m.type, m.data]), [[2, 'stdout', 'one\n'], [3, 'stdout', 'two\n']]);
+  assert.ok(messages.every(m => m.epoch === channels.epoch));
+});
+
+test('since from another epoch replays everything', async () => {
+  const { runs, channels } = setup();
+  runs.finish('a', ['one\n']);
+
+  assert.deepEqual((await replay(channels, runChannel('a'), 3, channels.epoch)).map(m => m.seq), []);
+  assert.deepEqual((await replay(channels, runChannel('a'), 3, 'before-restart')).map(m => m.seq), [1, 2, 3]);
+});
+
+test('runs that do not exist have no channel', async () => {
+  const { channels } = setup();
+  assert.equal(await replay(channels, runChannel('missing'), 0), null);
+  assert.equal(await replay(channels, 'nonsense', 0), null);
+});
+
+test('a run seen only on disk replays its status and final metadata', async () => {
+  const { runs, channels } = setup();
+  runs.runs.set('old', { id: 'old', status: 'failed' });
+  assert.deepEqual((await replay(channels, runChannel('old'), 0)).map(m => [m.seq, m.type]), [[1, 'status'], [2, 'complete']]);
+});
+
+test('an evicted channel numbers on, so a resuming client still gets complete', async () => {
+  const { runs, channels } = setup();
+  runs.finish('a', ['one\n', 'two\n']);
+  const seen = await replay(channels, runChannel('a'), 0, channels.epoch);
+  const lastSeq = seen[seen.length - 1].seq;
+  assert.equal(lastSeq, 4);
+
+  // More finished runs than are kept push the first one out
+  for (let i = 0; i < 25; i++) runs.finish(`other-${i}`);
+
+  const resumed = await replay(channels, runChannel('a'), lastSeq, channels.epoch);
+  assert.deepEqual(resumed.map(m => [m.seq, m.type]), [[5, 'status'], [6, 'complete']]);
+});
+
+test('the output buffer is capped in bytes, not characters', async () => {
+  const { runs, channels } = setup();
+  // 200 KB of two-byte characters per chunk, 1.6 MB in all
+  runs.finish('a', Array.from({ length: 8 }, () => 'é'.repeat(100_000)));
+
+  const output = (await replay(channels, runChannel('a'), 0)).filter(m => m.type === 'stdout');
+  const bytes = output.reduce((sum, m) => sum + Buffer.byteLength(m.data), 0);
+  assert.equal(output.length, 5);
+  assert.ok(bytes <= 1024 * 1024);
+});
@@ -0,0 +1,87 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let root;
+let RunLogService;
+
+before(async () => {
+  // CONFIG reads the artifacts directory on import
+  root = await mkdtemp(join(tmpdir(), 'v8lab-runlog-'));
+  process.env.ARTIFACTS_DIR = root;
+  ({ RunLogService } = await import('../src/services/RunLogService.ts'));
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+function setup() {
+  const runs = new EventEmitter();
+  return { runs, logs: new RunLogService(runs) };
+}
+
+const texts = log => log.lines.map(line => `${line.stream}:${line.text}`);
+
+test('output is split into numbered lines per stream', async () => {
+  const { runs, logs } = setup();
+  runs.emit('run:start', 'a');
+  runs.emit('run:stdout', 'a', 'one\ntw');
+  runs.emit('run:stderr', 'a', 'warning\n');
+  runs.emit('run:stdout', 'a', 'o\nthree');
+  runs.emit('run:complete', 'a');
+
+  const log = await logs.getLog('a');
+  assert.equal(log.total, 4);
+  assert.deepEqual(texts(log), ['stdout:one', 'stderr:warning', 'stdout:two', 'stdout:three']);
+  assert.deepEqual(log.lines.map(line => line.n), [0, 1, 2, 3]);
+  assert.deepEqual(texts(await logs.getLog('a', { stream: 'stderr' })), ['stderr:warning']);
+});
+
+test('pages are read by line range', async () => {
+  const { runs, logs } = setup();
+  runs.emit('run:start', 'b');
+  runs.emit('run:stdout', 'b', Array.from({ length: 10 }, (_, i) => `line ${i} é\n`).join(''));
+  runs.emit('run:complete', 'b');
+
+  const page = await logs.getLog('b', { from: 3, to: 6 });
+  assert.equal(page.total, 10);
+  assert.deepEqual(page.lines.map(line => line.text), ['line 3 é', 'line 4 é', 'line 5 é']);
+  assert.deepEqual((await logs.getLog('b', { from: 8, to: 50 })).lines.map(line => line.n), [8, 9]);
+  assert.deepEqual((await logs.getLog('b', { from: 20, to: 30 })).lines, []);
+});
+
+test('lines appended after a page was read show up in the next one', async () => {
+  const { runs, logs } = setup();
+  runs.emit('run:start', 'c');
+  runs.emit('run:stdout', 'c', 'one\n');
+  assert.equal((await logs.getLog('c')).total, 1);
+
+  runs.emit('run:stdout', 'c', 'two\nthree\n');
+  const log = await logs.getLog('c', { from: 1 });
+  assert.equal(log.total, 3);
+  assert.deepEqual(log.lines.map(line => line.text), ['two', 'three']);
+
+  // Half a line written by someone else is left for later
+  await appendFile(join(root, 'runs', 'c.log.jsonl'), '{"n":3,');
+  assert.equal((await logs.getLog('c')).total, 3);
+});
+
+test('a run that starts over gets a new log', async () => {
+  const { runs, logs } = setup();
+  runs.emit('run:start', 'd');
+  runs.emit('run:stdout', 'd', 'first attempt\nmore\n');
+  assert.equal((await logs.getLog('d')).total, 2);
+
+  runs.emit('run:start', 'd');
+  runs.emit('run:stdout', 'd', 'second attempt, with a longer line than before\n');
+  assert.deepEqual(texts(await logs.getLog('d')), ['stdout:second attempt, with a longer line than before']);
+});
+
+test('a run without output has an empty log', async () => {
+  const { logs } = setup();
+  assert.deepEqual(await logs.getLog('missing'), { lines: [], total: 0 });
+});
@@ -0,0 +1,146 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexedFileRunRepository, decodeCursor, encodeCursor } from '../src/repositories/RunRepository.ts';
+
+let dir;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'v8lab-runs-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const run = (id, queued, fields = {}) => ({
+  id,
+  experiment: '01-hidden-classes',
+  variant: 'deopt',
+  status: 'completed',
+  timestamps: { queued },
+  artifacts: {},
+  ...fields,
+});
+
+async function logLines() {
+  return (await readFile(join(dir, 'runs.jsonl'), 'utf-8')).split('\n').filter(Boolean);
+}
+
+test('cursors round-trip and garbage decodes to null', () => {
+  const cursor = encodeCursor(run('a', '2026-01-01T00:00:00.000Z'));
+  assert.deepEqual(decodeCursor(cursor), ['2026-01-01T00:00:00.000Z', 'a']);
+  for (const bad of ['', 'not base64', Buffer.from('[1,2]').toString('base64url'), Buffer.from('{}').toString('base64url')]) {
+    assert.equal(decodeCursor(bad), null, bad);
+  }
+});
+
+test('query pages newest first, following the cursor', async () => {
+  const repository = new IndexedFileRunRepository(dir);
+  // Two runs share a timestamp, so the id breaks the tie
+  const queued = ['01', '02', '03', '03', '05'].map(day => `2026-01-${day}T00:00:00.000Z`);
+  for (const [i, time] of queued.entries()) {
+    await repository.save(run(`run-${i}`, time));
+  }
+
+  const ids = [];
+  let cursor;
+  let pages = 0;
+  do {
+    const page = await repository.query({ limit: 2, cursor });
+    assert.equal(page.total, 5);
+    ids.push(...page.runs.map(r => r.id));
+    cursor = page.nextCursor ?? undefined;
+    pages++;
+  } while (cursor);
+
+  assert.equal(pages, 3);
+  assert.deepEqual(ids, ['run-4', 'run-3', 'run-2', 'run-1', 'run-0']);
+});
+
+test('query filters by experiment, variant, status and time', async () => {
+  const repository = new IndexedFileRunRepository(dir);
+  await repository.save(run('a', '2026-01-01T00:00:00.000Z'));
+  await repository.save(run('b', '2026-01-02T00:00:00.000Z', { variant: 'fixed' }));
+  await repository.save(run('c', '2026-01-03T00:00:00.000Z', { experiment: '02-inline-caches', status: 'failed' }));
+
+  const ids = async query => (await repository.query({ limit: 10, ...query })).runs.map(r => r.id);
+  assert.deepEqual(await ids({ experiment: '01-hidden-classes' }), ['b', 'a']);
+  assert.deepEqual(await ids({ variant: 'fixed' }), ['b']);
+  assert.deepEqual(await ids({ status: 'failed' }), ['c']);
+  assert.deepEqual(await ids({ since: new Date('2026-01-02T00:00:00.000Z') }), ['c', 'b']);
+});
+
+test('the last saved snapshot wins, in memory and after a reload', async () => {
+  const repository = new IndexedFileRunRepository(dir);
+  const metadata = run('a', '2026-01-01T00:00:00.000Z', { status: 'running' });
+  await repository.save(metadata);
+  metadata.status = 'completed';
+  await repository.save(metadata);
+
+  // Saved snapshots do not follow later changes to the caller's object
+  metadata.status = 'failed';
+  assert.equal((await repository.get('a')).status, 'completed');
+
+  const reloaded = new IndexedFileRunRepository(dir);
+  assert.equal((await reloaded.get('a')).status, 'completed');
+  assert.equal(await reloaded.get('missing'), null);
+  assert.deepEqual((await reloaded.findByStatus('completed')).map(r => r.id), ['a']);
+});
+
+test('the log is compacted once superseded snapshots pile up', async () => {
+  const repository = new IndexedFileRunRepository(dir);
+  const metadata = run('a', '2026-01-01T00:00:00.000Z');
+  await repository.save(run('b', '2026-01-02T00:00:00.000Z'));
+
+  for (let i = 0; i < 199; i++) {
+    metadata.results = { exitCode: 0, durationMs: i };
+    await repository.save(metadata);
+  }
+  assert.equal((await logLines()).length, 200);
+
+  // One line over the 200 minimum rewrites the log with a line per run
+  metadata.results = { exitCode: 0, durationMs: 199 };
+  await repository.save(metadata);
+  const lines = await logLines();
+  assert.equal(lines.length, 2);
+  assert.equal(JSON.parse(lines.find(line => line.includes('"a"'))).results.durationMs, 199);
+
+  const reloaded = new IndexedFileRunRepository(dir);
+  assert.equal((await reloaded.query({ limit: 10 })).total, 2);
+});
+
+test('a torn last line is skipped', async () => {
+  const first = run('a', '2026-01-01T00:00:00.000Z');
+  await writeFile(join(dir, 'runs.jsonl'), `${JSON.stringify(first)}\n{"id":"a","status":"runn`);
+
+  const repository = new IndexedFileRunRepository(dir);
+  assert.equal((await repository.get('a')).status, 'completed');
+});
+
+test('runs stored as <id>.json files are imported into the log', async () => {
+  await writeFile(join(dir, 'a.json'), JSON.stringify(run('a', '2026-01-01T00:00:00.000Z', {
+    artifacts: { stdout: 'exp/a/stdout.log', stderr: 'exp/a/trace.log' },
+  })));
+  await writeFile(join(dir, 'b.json'), JSON.stringify(run('b', '2026-01-02T00:00:00.000Z')));
+  await writeFile(join(dir, 'queue.json'), JSON.stringify(['b']));
+
+  const repository = new IndexedFileRunRepository(dir);
+  assert.deepEqual((await repository.query({ limit: 10 })).runs.map(r => r.id), ['b', 'a']);
+  assert.deepEqual(await repository.loadQueue(), ['b']);
+
+  // Back then the trace log was recorded as stderr
+  assert.deepEqual((await repository.get('a')).artifacts, { stdout: 'exp/a/stdout.log', trace: 'exp/a/trace.log' });
+
+  assert.equal((await logLines()).length, 2);
+  assert.ok((await readdir(dir)).includes('runs.jsonl'));
+});
+
+test('the queue is saved and loaded in order', async () => {
+  const repository = new IndexedFileRunRepository(dir);
+  assert.deepEqual(await repository.loadQueue(), []);
+  await repository.saveQueue(['b', 'a']);
+  assert.deepEqual(await new IndexedFileRunRepository(dir).loadQueue(), ['b', 'a']);
+});
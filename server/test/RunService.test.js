@@ -0,0 +1,82 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let root;
+let runService;
+let runRepository;
+
+const run = (id, directories) => ({
+  id,
+  experiment: '01-hidden-classes',
+  variant: 'deopt',
+  status: 'completed',
+  timestamps: { queued: '2026-01-01T00:00:00.000Z' },
+  artifacts: { directories },
+});
+
+before(async () => {
+  // CONFIG reads the artifacts directory on import
+  root = await mkdtemp(join(tmpdir(), 'v8lab-runservice-'));
+  process.env.ARTIFACTS_DIR = join(root, 'artifacts');
+  ({ runService } = await import('../src/services/RunService.ts'));
+  ({ runRepository } = await import('../src/repositories/RunRepository.ts'));
+
+  for (const dir of ['artifacts/exp/deopt/a', 'artifacts/exp/deopt/b', 'outside']) {
+    await mkdir(join(root, dir), { recursive: true });
+  }
+  await writeFile(join(root, 'artifacts/exp/deopt/a/stdout.log'), 'first\n');
+  await writeFile(join(root, 'artifacts/exp/deopt/b/stdout.log'), 'second\n');
+  await writeFile(join(root, 'artifacts/exp/deopt/b/trace.log'), '');
+  await writeFile(join(root, 'outside/secret.txt'), 'secret\n');
+
+  await runRepository.save(run('single', ['exp/deopt/a']));
+  await runRepository.save(run('samples', ['exp/deopt/a', 'exp/deopt/b']));
+  // Metadata pointing out of the artifacts directory
+  await runRepository.save(run('escaping', ['../outside']));
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+test('artifacts are listed by file name, prefixed by sample when there are several', async () => {
+  assert.deepEqual((await runService.listArtifacts('single')).map(a => [a.name, a.type]), [['stdout.log', 'stdout']]);
+  assert.deepEqual(
+    (await runService.listArtifacts('samples')).map(a => a.name),
+    ['sample-1/stdout.log', 'sample-2/stdout.log', 'sample-2/trace.log']
+  );
+  assert.equal(await runService.listArtifacts('missing'), null);
+});
+
+test('getArtifactPath resolves listed names inside the artifacts directory', async () => {
+  assert.equal(
+    await runService.getArtifactPath('samples', 'sample-2/stdout.log'),
+    join(root, 'artifacts/exp/deopt/b/stdout.log')
+  );
+  assert.equal(await runService.getArtifactPath('single', 'stdout.log'), join(root, 'artifacts/exp/deopt/a/stdout.log'));
+});
+
+test('getArtifactPath rejects names that were not listed', async () => {
+  for (const name of ['trace.log', '../b/stdout.log', 'sample-1/../../b/stdout.log', '/etc/passwd']) {
+    assert.equal(await runService.getArtifactPath('single', name), null, name);
+  }
+  assert.equal(await runService.getArtifactPath('missing', 'stdout.log'), null);
+});
+
+test('getArtifactPath never resolves outside the artifacts directory', async () => {
+  assert.deepEqual((await runService.listArtifacts('escaping')).map(a => a.name), ['secret.txt']);
+  assert.equal(await runService.getArtifactPath('escaping', 'secret.txt'), null);
+});
+
+test('a group of runs fails with any run and completes with all of them', async () => {
+  const { groupStatus } = await import('../src/services/RunService.ts');
+  assert.equal(groupStatus(['completed', 'failed', 'running']), 'failed');
+  assert.equal(groupStatus(['completed', 'cancelled']), 'cancelled');
+  assert.equal(groupStatus(['queued', 'running']), 'running');
+  assert.equal(groupStatus(['completed', 'queued']), 'running');
+  assert.equal(groupStatus(['queued', 'queued']), 'queued');
+  assert.equal(groupStatus(['completed', 'completed']), 'completed');
+});
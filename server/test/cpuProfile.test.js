@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCpuProfile } from '../src/cpuProfile.ts';
+
+const SCRIPT = 'file:///lab/experiments/01-hidden-classes/deopt.js';
+
+const node = (id, functionName, url, lineNumber, children = []) => ({
+  id,
+  callFrame: { functionName, scriptId: '1', url, lineNumber, columnNumber: lineNumber >= 0 ? 12 : -1 },
+  children,
+});
+
+// (root) -> (module) -> fib -> fib, (root) -> readFile, (root) -> never sampled
+const PROFILE = {
+  nodes: [
+    node(1, '(root)', '', -1, [2, 5, 6]),
+    node(2, '', SCRIPT, 0, [3]),
+    node(3, 'fib', SCRIPT, 9, [4]),
+    node(4, 'fib', SCRIPT, 9),
+    node(5, 'unused', SCRIPT, 20),
+    node(6, 'readFile', 'node:fs', 100),
+  ],
+  startTime: 0,
+  endTime: 5000,
+  samples: [3, 4, 4, 6, 1],
+  timeDeltas: [0, 1000, 1000, 1000, 1000],
+};
+
+const tree = parseCpuProfile(PROFILE, '01-hidden-classes');
+
+// [name, self ms, total ms] of a node and its children
+const shape = n => [n.functionName, n.selfTime, n.totalTime, n.children.map(shape)];
+
+test('each sample is charged the time until the next one', () => {
+  assert.equal(tree.sampleCount, 5);
+  assert.equal(tree.totalTime, 5);
+  assert.deepEqual(shape(tree.root), [
+    '(root)', 1, 5, [
+      ['(module)', 0, 3, [
+        ['fib', 1, 3, [
+          ['fib', 2, 2, []],
+        ]],
+      ]],
+      ['readFile', 1, 1, []],
+    ],
+  ]);
+});
+
+test('frames get 1-based positions and a category', () => {
+  const [module, readFile] = tree.root.children;
+  const fib = module.children[0];
+  assert.deepEqual([fib.line, fib.column, fib.category], [10, 13, 'experiment']);
+  assert.equal(readFile.category, 'node');
+  assert.equal(tree.root.category, 'v8');
+  assert.equal(tree.root.line, undefined);
+});
+
+test('hot functions merge call sites without counting recursion twice', () => {
+  assert.deepEqual(
+    tree.hotFunctions.map(fn => [fn.functionName, fn.selfTime, fn.totalTime]),
+    [['fib', 3, 3], ['readFile', 1, 1]]
+  );
+});
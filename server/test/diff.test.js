@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines } from '../src/diff.ts';
+
+// Rows as "type left|right" with line numbers, for compact expectations
+const rows = (before, after) =>
+  diffLines(before, after).map(row =>
+    `${row.type} ${row.left ? `${row.left.line}:${row.left.text}` : '-'}|${row.right ? `${row.right.line}:${row.right.text}` : '-'}`
+  );
+
+test('identical texts are all equal rows', () => {
+  assert.deepEqual(rows('a\nb', 'a\nb'), ['equal 1:a|1:a', 'equal 2:b|2:b']);
+});
+
+test('added and removed lines keep the line numbers of their side', () => {
+  assert.deepEqual(rows('a\nb\nc', 'a\nc\nd'), [
+    'equal 1:a|1:a',
+    'removed 2:b|-',
+    'equal 3:c|2:c',
+    'added -|3:d',
+  ]);
+});
+
+test('removed lines followed by added ones pair up as changed rows', () => {
+  assert.deepEqual(rows('a\nx\ny\nz', 'a\nX\nz'), [
+    'equal 1:a|1:a',
+    'changed 2:x|2:X',
+    'removed 3:y|-',
+    'equal 4:z|3:z',
+  ]);
+});
+
+test('the longest common subsequence stays aligned when lines move', () => {
+  const before = ['function f() {', '  one();', '  two();', '  three();', '}'].join('\n');
+  const after = ['function f() {', '  two();', '  three();', '  one();', '}'].join('\n');
+  assert.deepEqual(rows(before, after), [
+    'equal 1:function f() {|1:function f() {',
+    'removed 2:  one();|-',
+    'equal 3:  two();|2:  two();',
+    'equal 4:  three();|3:  three();',
+    'added -|4:  one();',
+    'equal 5:}|5:}',
+  ]);
+});
+
+test('an empty side diffs against every line of the other', () => {
+  assert.deepEqual(rows('', 'a\nb'), ['changed 1:|1:a', 'added -|2:b']);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateExpectation, expectationSchema, overallStatus, requiredRuns } from '../src/expectations.ts';
+
+const slowerThan = expectationSchema.parse({ variant: 'deopt', slowerThan: 'fixed', factor: 2 });
+const noDeopts = expectationSchema.parse({ variant: 'fixed', maxDeopts: 0, function: 'getX' });
+const someDeopts = expectationSchema.parse({ variant: 'deopt', minDeopts: 1 });
+
+test('the factor defaults to 1 and unknown keys are rejected', () => {
+  assert.equal(expectationSchema.parse({ variant: 'deopt', slowerThan: 'fixed' }).factor, 1);
+  assert.equal(expectationSchema.safeParse({ variant: 'deopt', maxDeopts: 0, functon: 'getX' }).success, false);
+});
+
+test('requiredRuns splits timing and traced variants', () => {
+  assert.deepEqual(requiredRuns([slowerThan, noDeopts, someDeopts]), {
+    timing: ['deopt', 'fixed'],
+    traced: ['fixed', 'deopt'],
+  });
+});
+
+test('a slowerThan expectation compares mean ns/op', () => {
+  const fixed = { nsPerOp: 10, ci: { lower: 9.5, upper: 10.5 } };
+
+  const pass = evaluateExpectation(slowerThan, { deopt: { nsPerOp: 25 }, fixed }, {});
+  assert.equal(pass.status, 'pass');
+  assert.equal(pass.actual, 2.5);
+  assert.equal(pass.message, 'deopt 25.00 ns/op vs fixed 10.00 ns/op (CI 9.50–10.50): 2.50x');
+
+  const fail = evaluateExpectation(slowerThan, { deopt: { nsPerOp: 15 }, fixed }, {});
+  assert.equal(fail.status, 'fail');
+  assert.equal(fail.description, 'deopt ≥ 2x slower than fixed');
+});
+
+test('a missing measurement is an error', () => {
+  const result = evaluateExpectation(slowerThan, { deopt: { error: 'exited with code 1' }, fixed: { nsPerOp: 10 } }, {});
+  assert.equal(result.status, 'error');
+  assert.equal(result.message, 'deopt: exited with code 1');
+
+  assert.equal(evaluateExpectation(someDeopts, {}, {}).message, 'deopt: no deopt count reported');
+});
+
+test('deopt expectations count the variant or a single function', () => {
+  const traced = {
+    fixed: { deoptCount: 1, deoptsByFunction: { benchmark: 1 } },
+    deopt: { deoptCount: 3, deoptsByFunction: { getX: 2, benchmark: 1 } },
+  };
+
+  const fixed = evaluateExpectation(noDeopts, {}, traced);
+  assert.equal(fixed.status, 'pass');
+  assert.equal(fixed.actual, 0);
+  assert.equal(fixed.description, 'fixed has zero deopts in getX');
+  assert.equal(fixed.message, 'getX deoptimized 0 times');
+
+  const deopt = evaluateExpectation(someDeopts, {}, traced);
+  assert.equal(deopt.status, 'pass');
+  assert.equal(deopt.message, 'deopt deoptimized 3 times');
+
+  const inGetX = expectationSchema.parse({ variant: 'deopt', maxDeopts: 1, function: 'getX' });
+  assert.equal(evaluateExpectation(inGetX, {}, traced).status, 'fail');
+});
+
+test('the worst status wins', () => {
+  const result = status => ({ description: '', status, message: '' });
+  assert.equal(overallStatus([]), 'pass');
+  assert.equal(overallStatus([result('pass'), result('fail')]), 'fail');
+  assert.equal(overallStatus([result('fail'), result('error'), result('pass')]), 'error');
+});
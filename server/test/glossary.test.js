@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findGlossaryEntry, parseGlossary } from '../src/glossary.ts';
+
+const GLOSSARY = `# Glossary
+
+## V8 & JIT Compilation Terms
+
+### Inline Cache (IC)
+Caching mechanism for **property access** and function calls.
+
+### Hidden Class (Shape/Map)
+V8's internal representation of object structure.
+
+\`\`\`js
+### not a heading
+\`\`\`
+
+### "Wrong map"
+A deopt reason.
+
+## Abbreviations
+
+- **IC**: Inline Cache
+- **GC**: Garbage Collector
+`;
+
+const entries = parseGlossary(GLOSSARY, '/docs/06-glossary');
+
+test('parseGlossary reads terms, synonyms and definitions', () => {
+  assert.deepEqual(entries.map(entry => entry.id), ['inline-cache-ic', 'hidden-class-shapemap', 'wrong-map', 'gc']);
+
+  const [ic, hiddenClass, wrongMap] = entries;
+  assert.equal(ic.term, 'Inline Cache');
+  assert.deepEqual(ic.aliases, ['IC']);
+  assert.equal(ic.category, 'V8 & JIT Compilation Terms');
+  assert.equal(ic.summary, 'Caching mechanism for property access and function calls.');
+  assert.equal(ic.url, '/docs/06-glossary#inline-cache-ic');
+
+  assert.deepEqual(hiddenClass.aliases, ['Shape', 'Map']);
+  assert.match(hiddenClass.definition, /### not a heading/);
+  assert.equal(wrongMap.term, 'Wrong map');
+});
+
+test('an abbreviation becomes its own entry, linked to its section', () => {
+  const gc = entries[3];
+  assert.equal(gc.term, 'GC');
+  assert.deepEqual(gc.aliases, ['Garbage Collector']);
+  assert.equal(gc.category, 'Abbreviations');
+  assert.equal(gc.url, '/docs/06-glossary#abbreviations');
+});
+
+test('findGlossaryEntry finds an entry by id, term or alias, ignoring case', () => {
+  for (const name of ['inline-cache-ic', 'Inline Cache', 'ic', ' IC ']) {
+    assert.equal(findGlossaryEntry(entries, name)?.id, 'inline-cache-ic', name);
+  }
+  assert.equal(findGlossaryEntry(entries, 'garbage collector')?.id, 'gc');
+  assert.equal(findGlossaryEntry(entries, 'turbofan'), null);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readManifest } from '../src/manifest.ts';
+
+const VALID = {
+  title: 'Hidden Classes',
+  description: 'How property order decides which objects share a shape',
+  tags: ['shapes', 'optimization'],
+  difficulty: 'beginner',
+};
+
+test('a valid manifest gets defaults for the optional fields', () => {
+  const { manifest, issues } = readManifest({ ...VALID, prerequisites: ['02-inline-caches'] });
+  assert.deepEqual(issues, []);
+  assert.deepEqual(manifest, {
+    ...VALID,
+    concepts: [],
+    prerequisites: ['02-inline-caches'],
+    relatedDocs: [],
+    outcomes: [],
+    expectations: [],
+  });
+});
+
+test('an invalid manifest keeps every field that is valid on its own', () => {
+  const { manifest, issues } = readManifest({
+    ...VALID,
+    difficulty: 'expert',
+    tags: ['two words'],
+    relatedDocs: ['01-v8-optimization-mental-model'],
+  });
+
+  assert.equal(manifest.title, 'Hidden Classes');
+  assert.deepEqual(manifest.relatedDocs, ['01-v8-optimization-mental-model']);
+  assert.deepEqual(manifest.concepts, []);
+  assert.equal('difficulty' in manifest, false);
+  assert.equal('tags' in manifest, false);
+  assert.deepEqual(issues.map(issue => issue.path).sort(), ['difficulty', 'tags.0']);
+  assert.equal(issues.find(issue => issue.path === 'tags.0').message, 'Tags are single words');
+});
+
+test('missing required fields and unknown keys are reported', () => {
+  const { manifest, issues } = readManifest({ title: 'Hidden Classes', tilte: 'typo' });
+  assert.equal(manifest.title, 'Hidden Classes');
+  assert.deepEqual(issues.map(issue => issue.path).sort(), ['(frontmatter)', 'description', 'difficulty', 'tags']);
+  assert.match(issues.find(issue => issue.path === '(frontmatter)').message, /tilte/);
+});
+
+test('expectations are validated as part of the manifest', () => {
+  const { manifest, issues } = readManifest({
+    ...VALID,
+    expectations: [{ variant: 'deopt', slowerThan: 'fixed' }, { variant: 'fixed', maxDeopts: -1 }],
+  });
+  assert.deepEqual(issues.map(issue => issue.path), ['expectations.1.maxDeopts']);
+  assert.equal('expectations' in manifest, false);
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anchorFor, buildIndex, queryWords, searchIndex } from '../src/search.ts';
+
+const entry = (kind, heading, text) => ({ kind, slug: 'doc', title: 'Doc', heading, url: '/docs/doc', text });
+
+const ENTRIES = [
+  entry('doc', 'Hidden classes', 'Objects with the same shape share a hidden class. Adding properties in a different order creates a new map.'),
+  entry('doc', 'Wrong map', 'A deoptimization with reason wrong map means the object had a map the optimized code did not expect.'),
+  entry('doc', 'Inline caches', 'An inline cache remembers the maps seen at a property access. A megamorphic cache has seen too many maps.'),
+  entry('glossary', 'Deoptimization', 'V8 discards optimized code and returns to the interpreter.'),
+  entry('doc', 'Arrays', 'Elements kinds describe how an array stores its elements.'),
+];
+
+const index = buildIndex(ENTRIES);
+const search = (query, options = {}) => searchIndex(index, query, { limit: 10, ...options });
+
+test('queryWords drops stop words unless nothing else is left', () => {
+  assert.deepEqual(queryWords('What is the wrong map?'), ['wrong', 'map']);
+  assert.deepEqual(queryWords('the the'), ['the']);
+});
+
+test('anchorFor matches GitHub heading ids', () => {
+  assert.equal(anchorFor('Inline Cache (IC)'), 'inline-cache-ic');
+});
+
+test('only entries with every query word match', () => {
+  const { total, hits } = search('map megamorphic');
+  assert.equal(total, 1);
+  assert.equal(hits[0].heading, 'Inline caches');
+});
+
+test('a word in the heading ranks first', () => {
+  const { hits } = search('map');
+  assert.equal(hits[0].heading, 'Wrong map');
+  assert.ok(hits.every((hit, i) => i === 0 || hits[i - 1].score >= hit.score));
+});
+
+test('the whole query as a phrase outranks the same words apart', () => {
+  const phrase = buildIndex([
+    entry('doc', undefined, 'The code saw a map and later something went wrong elsewhere entirely.'),
+    entry('doc', undefined, 'The code saw a wrong map and later something went elsewhere entirely.'),
+  ]);
+  const { hits } = searchIndex(phrase, 'wrong map', { limit: 10 });
+  assert.equal(hits[0].snippet.includes('wrong map'), true);
+});
+
+test('words of three letters or more also match longer words', () => {
+  const { hits } = search('deopt');
+  assert.deepEqual(hits.map(hit => hit.heading).sort(), ['Deoptimization', 'Wrong map']);
+  assert.equal(search('ar').total, 0);
+});
+
+test('an exact word outranks a longer word it starts', () => {
+  const prefix = buildIndex([
+    entry('doc', undefined, 'Arrays of numbers stored as packed elements.'),
+    entry('doc', undefined, 'An array of numbers stored as packed elements.'),
+  ]);
+  const { hits } = searchIndex(prefix, 'array', { limit: 10 });
+  assert.ok(hits[0].snippet.startsWith('An array'));
+  assert.ok(hits[0].score > hits[1].score);
+});
+
+test('results can be limited to a kind and a count', () => {
+  assert.deepEqual(search('deopt', { kind: 'glossary' }).hits.map(hit => hit.heading), ['Deoptimization']);
+
+  const limited = search('map', { limit: 1 });
+  assert.equal(limited.hits.length, 1);
+  assert.equal(limited.total, 3);
+});
+
+test('hits highlight the matched words in their snippet', () => {
+  const [hit] = search('megamorphic').hits;
+  assert.deepEqual(hit.highlights.map(([start, end]) => hit.snippet.slice(start, end)), ['megamorphic']);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { annotateSource } from '../src/sourceAnnotations.ts';
+
+const FILE = '01-hidden-classes/deopt.js';
+
+const SOURCE = [
+  "import { reportResult } from '../_shared/harness.js';",
+  '',
+  'function getX(point) {',
+  '  return point.x;',
+  '}',
+  '',
+  'const double = (n) => n * 2;',
+  '',
+  'class Point {',
+  '  norm() {',
+  '    return Math.hypot(this.x, this.y);',
+  '  }',
+  '}',
+].join('\n');
+
+let seq = 0;
+const event = (type, functionName, fields = {}) => ({ seq: seq++, line: seq, type, functionName, raw: '', ...fields });
+const deoptAt = (file, line, column, fields = {}) =>
+  event('deopt', 'getX', { deoptKind: 'eager', reason: 'wrong map', sourcePosition: { file, line, column }, ...fields });
+
+test('deopts go to the position V8 printed for this file', () => {
+  const annotations = annotateSource(SOURCE, FILE, [
+    deoptAt(`file:///lab/experiments/${FILE}`, 4, 16),
+    deoptAt(`/lab/experiments/${FILE}`, 4, 16),
+    deoptAt(`/lab/experiments/${FILE}`, 4, 16, { reason: 'not a Smi' }),
+    // Elsewhere, or without a position
+    deoptAt('file:///lab/experiments/_shared/harness.js', 4, 16),
+    deoptAt(`file:///lab/experiments/other-${FILE}`, 4, 16),
+    event('deopt', 'getX', { reason: 'wrong map' }),
+  ]);
+
+  assert.deepEqual(annotations, [
+    { line: 4, column: 16, type: 'deopt', functionName: 'getX', reason: 'wrong map', deoptKind: 'eager', count: 2 },
+    { line: 4, column: 16, type: 'deopt', functionName: 'getX', reason: 'not a Smi', deoptKind: 'eager', count: 1 },
+  ]);
+});
+
+test('optimizations go to the declaration of the function', () => {
+  const annotations = annotateSource(SOURCE, FILE, [
+    event('optimized', 'getX', { tier: 'TurboFan' }),
+    event('optimized', 'getX', { tier: 'TurboFan' }),
+    event('optimized', 'double', { tier: 'Maglev' }),
+    event('aborted', 'norm', { reason: 'Function too large' }),
+    event('optimized', 'Point'),
+    // Not declared in this file, or not a plain name
+    event('optimized', 'benchmark'),
+    event('optimized', '(anonymous)'),
+    event('marked', 'getX'),
+  ]);
+
+  assert.deepEqual(annotations.map(a => [a.line, a.type, a.functionName, a.count]), [
+    [3, 'optimized', 'getX', 2],
+    [7, 'optimized', 'double', 1],
+    [9, 'optimized', 'Point', 1],
+    [10, 'aborted', 'norm', 1],
+  ]);
+});
+
+test('positions outside the file are dropped', () => {
+  assert.deepEqual(annotateSource(SOURCE, FILE, [deoptAt(FILE, 99, 1), deoptAt(FILE, 0, 1)]), []);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bootstrapMeanCI, percentile, summarizeSamples } from '../src/stats.ts';
+
+test('percentile interpolates between the closest ranks', () => {
+  const sorted = [10, 20, 30, 40];
+  assert.equal(percentile(sorted, 0), 10);
+  assert.equal(percentile(sorted, 1), 40);
+  assert.equal(percentile(sorted, 0.5), 25);
+  assert.equal(percentile([7], 0.95), 7);
+  assert.ok(Number.isNaN(percentile([], 0.5)));
+});
+
+test('summarizeSamples describes the samples', () => {
+  const stats = summarizeSamples([5, 1, 4, 2, 3]);
+  assert.equal(stats.count, 5);
+  assert.equal(stats.mean, 3);
+  assert.equal(stats.median, 3);
+  assert.equal(stats.min, 1);
+  assert.equal(stats.max, 5);
+  assert.equal(stats.p95, 4.8);
+  assert.equal(stats.stddev, Math.sqrt(2.5));
+  assert.equal(stats.ci.level, 0.95);
+});
+
+test('the bootstrap CI of the mean lies within the samples and around the mean', () => {
+  const values = [98, 101, 99, 102, 100, 97, 103, 100];
+  const { ci, mean } = summarizeSamples(values);
+  assert.ok(ci.lower <= mean && mean <= ci.upper, `${ci.lower} ≤ ${mean} ≤ ${ci.upper}`);
+  assert.ok(ci.lower >= 97 && ci.upper <= 103);
+  assert.ok(ci.lower < ci.upper);
+});
+
+test('the bootstrap CI narrows with less spread', () => {
+  const wide = bootstrapMeanCI([50, 150, 60, 140, 70, 130, 80, 120]);
+  const narrow = bootstrapMeanCI([99, 101, 99.5, 100.5, 100, 100, 99, 101]);
+  assert.ok(narrow.upper - narrow.lower < wide.upper - wide.lower);
+});
+
+test('the bootstrap CI of fewer than two samples is the sample itself', () => {
+  assert.deepEqual(bootstrapMeanCI([42]), { lower: 42, upper: 42 });
+  assert.deepEqual(bootstrapMeanCI([7, 7, 7]), { lower: 7, upper: 7 });
+});
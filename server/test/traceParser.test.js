@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTrace, summarizeTrace } from '../src/traceParser.ts';
+
+const TRACE = `
+[marking 0x3e1c <JSFunction getX (sfi = 0x2a51)> for optimization to TURBOFAN, ConcurrencyMode::kConcurrent, reason: hot and stable]
+[compiling method 0x3e1c <JSFunction getX (sfi = 0x2a51)> (target TURBOFAN) OSR, mode: ConcurrencyMode::kConcurrent]
+[completed optimizing 0x3e1c <JSFunction getX (sfi = 0x2a51)> (target TURBOFAN)]
+[bailout (kind: deopt-eager, reason: wrong map): begin. deoptimizing 0x3e1c <JSFunction getX (sfi = 0x2a51)>, opt id 0, node id 58, bytecode offset 12, deopt exit 3, FP to SP delta 32, caller SP 0x7ffd, pc 0x7f10]
+            ;;; deoptimize at <file:///lab/deopt.js:46:30>, wrong map
+[deoptimizing (DEOPT soft): begin 0x5b2e <JSFunction  (sfi = 0x2b90)> (opt #1) @3, FP to SP delta: 24, caller sp: 0x7ffd]
+            ;;; deoptimize at <file:///lab/deopt.js:10:5>, Insufficient type feedback for call
+[optimizing 0x7a01 <JSFunction sum (sfi = 0x2c11)> (target TURBOFAN) - took 0.1, 2.0, 0.1 ms]
+[aborted optimizing 0x7a02 <JSFunction big (sfi = 0x2c12)> (target TURBOFAN) because: Function too large]
+not a trace line
+`;
+
+test('parseTrace recognises optimization events', () => {
+  const events = parseTrace(TRACE);
+  assert.deepEqual(events.map(e => e.type), ['marked', 'compiling', 'optimized', 'deopt', 'deopt', 'optimized', 'aborted']);
+  assert.deepEqual(events.map(e => e.seq), [0, 1, 2, 3, 4, 5, 6]);
+
+  const [marked, compiling, optimized] = events;
+  assert.equal(marked.functionName, 'getX');
+  assert.equal(marked.sfi, '0x2a51');
+  assert.equal(marked.tier, 'TurboFan');
+  assert.equal(marked.reason, 'hot and stable');
+  assert.equal(marked.line, 2);
+  assert.equal(compiling.osr, true);
+  assert.equal(optimized.osr, false);
+
+  // Node 18 format
+  assert.equal(events[5].functionName, 'sum');
+  assert.equal(events[6].reason, 'Function too large');
+});
+
+test('parseTrace reads the kind, reason and position of a deopt', () => {
+  const deopt = parseTrace(TRACE)[3];
+  assert.equal(deopt.functionName, 'getX');
+  assert.equal(deopt.deoptKind, 'eager');
+  assert.equal(deopt.reason, 'wrong map');
+  assert.equal(deopt.bytecodeOffset, 12);
+  assert.deepEqual(deopt.sourcePosition, { file: 'file:///lab/deopt.js', line: 46, column: 30 });
+});
+
+test('parseTrace takes the reason of a legacy deopt from its position line', () => {
+  const deopt = parseTrace(TRACE)[4];
+  assert.equal(deopt.functionName, '(anonymous)');
+  assert.equal(deopt.sfi, '0x2b90');
+  assert.equal(deopt.deoptKind, 'soft');
+  assert.equal(deopt.reason, 'Insufficient type feedback for call');
+  assert.deepEqual(deopt.sourcePosition, { file: 'file:///lab/deopt.js', line: 10, column: 5 });
+});
+
+test('a position line without a deopt before it is ignored', () => {
+  assert.deepEqual(parseTrace(';;; deoptimize at <file:///lab/deopt.js:1:1>, wrong map'), []);
+});
+
+test('summarizeTrace counts optimizations and deopts', () => {
+  const summary = summarizeTrace(parseTrace(TRACE));
+  assert.deepEqual(summary.optimizedFunctions, ['getX', 'sum']);
+  assert.equal(summary.optimizations, 2);
+  assert.equal(summary.deopts, 2);
+  assert.deepEqual(summary.deoptReasons, { 'wrong map': 1, 'Insufficient type feedback for call': 1 });
+  assert.deepEqual(summary.deoptsByFunction, { getX: 1, '(anonymous)': 1 });
+});